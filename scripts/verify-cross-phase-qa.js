@@ -128,7 +128,7 @@ function main() {
   runCheck(
     state,
     'Deep-link handling is validated and routed through parseDeepLink',
-    contains(mainSource, /parseDeepLink\(rawUrl,\s*config\.deepLinkScheme\)/),
+    contains(mainSource, /getDeepLinkScheme\(rawUrl,[\s\S]*parseDeepLink\(rawUrl,\s*scheme\)/),
     'src/main/index.ts handleDeepLink'
   );
 
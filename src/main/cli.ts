@@ -0,0 +1,144 @@
+/**
+ * Config CLI commands (`--print-config`, `--validate-config`, `--init-config`)
+ *
+ * Runs before the single-instance lock; output goes to stdout/stderr and the
+ * caller exits with the returned code.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getDefaultConfigPath,
+  getStarterConfig,
+  loadConfigReport,
+  parseConfigText,
+  redactConfigSecrets,
+  writeConfigFile,
+} from '../shared/config';
+import { isPlainObject } from '../shared/config-validation';
+import { migrateConfig } from '../shared/config-migrations';
+import { CLI_EXIT_CODES, CLI_USAGE, CliOptions } from '../shared/cli';
+
+function printConfig(options: CliOptions): number {
+  const { config, problems, provenance } = loadConfigReport({ configPath: options.configPath, quiet: true });
+  const output = {
+    config: redactConfigSecrets(config),
+    sources: provenance.fields,
+    problems,
+    loadedPath: provenance.loadedPath,
+    policyPath: provenance.policyPath,
+  };
+  process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+  return CLI_EXIT_CODES.ok;
+}
+
+function validateConfig(filePath: string): number {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    process.stderr.write(`Config file not found: ${resolvedPath}\n`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  // Only problems from the file itself; env and policy are not part of the file.
+  const { problems } = loadConfigReport({ configPath: resolvedPath, quiet: true });
+  const fileProblems = problems.filter((problem) => problem.source === 'file');
+  if (fileProblems.length === 0) {
+    process.stdout.write(`${resolvedPath}: valid\n`);
+    return CLI_EXIT_CODES.ok;
+  }
+
+  process.stdout.write(`${resolvedPath}: ${fileProblems.length} problem(s)\n`);
+  for (const problem of fileProblems) {
+    process.stdout.write(`  ${problem.field}: ${problem.problem}\n`);
+  }
+  return CLI_EXIT_CODES.problems;
+}
+
+function initConfig(options: CliOptions): number {
+  const targetPath = path.resolve(options.configPath ?? getDefaultConfigPath());
+  if (fs.existsSync(targetPath) && !options.force) {
+    process.stderr.write(`Config file already exists: ${targetPath} (use --force to overwrite)\n`);
+    return CLI_EXIT_CODES.problems;
+  }
+
+  try {
+    writeConfigFile(getStarterConfig(), targetPath);
+  } catch (error) {
+    process.stderr.write(`Unable to write ${targetPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return CLI_EXIT_CODES.problems;
+  }
+  return CLI_EXIT_CODES.ok;
+}
+
+function migrateConfigFile(options: CliOptions): number {
+  const explicitPath = options.migratePath ?? options.configPath;
+  const targetPath = explicitPath
+    ? path.resolve(explicitPath)
+    : loadConfigReport({ quiet: true }).provenance.loadedPath;
+  if (!targetPath || !fs.existsSync(targetPath)) {
+    process.stderr.write(`Config file not found: ${targetPath ?? '(no config file discovered)'}\n`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  let raw: unknown;
+  try {
+    raw = parseConfigText(fs.readFileSync(targetPath, 'utf-8'), targetPath);
+  } catch (error) {
+    process.stderr.write(`Unable to parse ${targetPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return CLI_EXIT_CODES.problems;
+  }
+  if (!isPlainObject(raw)) {
+    process.stderr.write(`${targetPath}: config must be an object\n`);
+    return CLI_EXIT_CODES.problems;
+  }
+
+  const result = migrateConfig(raw);
+  if (result.steps.length === 0) {
+    process.stdout.write(`${targetPath}: already at configVersion ${result.fromVersion}\n`);
+    return CLI_EXIT_CODES.ok;
+  }
+
+  // Parents pulled in through `extends` are left untouched; migrate them separately.
+  const backupPath = `${targetPath}.v${result.fromVersion}.bak`;
+  try {
+    writeConfigFile(result.config, targetPath, { backupPath });
+  } catch (error) {
+    process.stderr.write(`Unable to write ${targetPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    return CLI_EXIT_CODES.problems;
+  }
+
+  for (const step of result.steps) {
+    process.stdout.write(`v${step.from} -> v${step.to}: ${step.description}\n`);
+    for (const change of step.changes) {
+      process.stdout.write(`  ${change}\n`);
+    }
+  }
+  return CLI_EXIT_CODES.ok;
+}
+
+/**
+ * Run the requested CLI command.
+ * @returns Process exit code, or null when the app should start normally
+ */
+export function runCliCommand(options: CliOptions): number | null {
+  if (options.errors.length > 0) {
+    for (const error of options.errors) {
+      process.stderr.write(`${error}\n`);
+    }
+    process.stderr.write(`${CLI_USAGE}\n`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  switch (options.command) {
+    case 'print-config':
+      return printConfig(options);
+    case 'validate-config':
+      return validateConfig(options.validatePath ?? '');
+    case 'init-config':
+      return initConfig(options);
+    case 'migrate-config':
+      return migrateConfigFile(options);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Config File Watcher
+ *
+ * Watches the loaded config file for changes so the main process can reload
+ * it without restarting. The parent directory is watched instead of the file
+ * itself because editors commonly save by replacing the file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logDiagnostic } from './diagnostics';
+
+const RELOAD_DEBOUNCE_MS = 300;
+
+/**
+ * Watch a config file and invoke `onChange` (debounced) after it is modified.
+ * @returns Function that stops watching
+ */
+export function watchConfigFile(filePath: string, onChange: () => void): () => void {
+  const directory = path.dirname(filePath);
+  const fileName = path.basename(filePath);
+  let debounceId: ReturnType<typeof setTimeout> | null = null;
+  let watcher: fs.FSWatcher;
+
+  try {
+    watcher = fs.watch(directory, { persistent: false }, (_eventType, changedName) => {
+      if (changedName && changedName.toString() !== fileName) return;
+
+      if (debounceId !== null) clearTimeout(debounceId);
+      debounceId = setTimeout(() => {
+        debounceId = null;
+        if (!fs.existsSync(filePath)) {
+          logDiagnostic('warn', 'config.watch_missing', 'Watched config file is missing; keeping current config', {
+            path: filePath,
+          });
+          return;
+        }
+        onChange();
+      }, RELOAD_DEBOUNCE_MS);
+    });
+  } catch (error) {
+    logDiagnostic('warn', 'config.watch_failed', 'Unable to watch config file for changes', {
+      path: filePath,
+      error,
+    });
+    return () => undefined;
+  }
+
+  watcher.on('error', (error) => {
+    logDiagnostic('warn', 'config.watch_error', 'Config file watcher failed', {
+      path: filePath,
+      error,
+    });
+  });
+
+  logDiagnostic('info', 'config.watch_started', 'Watching config file for changes', {
+    path: filePath,
+  });
+
+  return () => {
+    if (debounceId !== null) clearTimeout(debounceId);
+    watcher.close();
+  };
+}
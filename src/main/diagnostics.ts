@@ -38,6 +38,7 @@ const SENSITIVE_KEYS = new Set([
   'cookie',
   'credential',
   'credentials',
+  'hmacsecrets',
 ]);
 
 const SENSITIVE_PATTERNS = [
@@ -48,6 +49,7 @@ const SENSITIVE_PATTERNS = [
 let configuredLevel: DiagnosticLevel = 'info';
 let diagnosticsPath = '';
 let diagnosticsReady = false;
+const exportSections = new Map<string, () => unknown>();
 
 function shouldLog(level: DiagnosticLevel): boolean {
   return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[configuredLevel];
@@ -93,6 +95,34 @@ function redactData(value: unknown): unknown {
   return value;
 }
 
+/**
+ * Redact a URL's query string with the diagnostics rules: values of sensitive
+ * parameters are replaced and the remaining text is pattern-redacted.
+ */
+export function redactUrlForDiagnostics(url: string): string {
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf('?');
+  if (queryIndex === -1) return redactText(url);
+
+  const query = withoutHash
+    .slice(queryIndex + 1)
+    .split('&')
+    .map((param) => {
+      const [name] = param.split('=');
+      let decodedName = name;
+      try {
+        decodedName = decodeURIComponent(name);
+      } catch {
+        // Keep the raw name.
+      }
+      return SENSITIVE_KEYS.has(normalizeSensitiveKey(decodedName)) ? `${name}=[REDACTED]` : redactText(param);
+    })
+    .join('&');
+  return `${withoutHash.slice(0, queryIndex)}?${query}${redactText(hash)}`;
+}
+
 function resolveDiagnosticsPath(): string {
   try {
     const logDir = app.getPath('logs');
@@ -130,6 +160,16 @@ export function initializeDiagnostics(logLevel: AppConfig['logLevel']): void {
   });
 }
 
+export function setDiagnosticsLevel(logLevel: AppConfig['logLevel']): void {
+  if (logLevel === configuredLevel) return;
+  const previousLevel = configuredLevel;
+  configuredLevel = logLevel;
+  logDiagnostic('info', 'diagnostics.level_changed', 'Diagnostics log level changed', {
+    from: previousLevel,
+    to: logLevel,
+  });
+}
+
 export function logDiagnostic(
   level: DiagnosticLevel,
   event: string,
@@ -186,6 +226,27 @@ function formatExportTimestamp(date: Date): string {
   return `${yyyy}${mm}${dd}-${hh}${min}${ss}`;
 }
 
+/**
+ * Register a named JSON section included (redacted) in diagnostics exports.
+ */
+export function registerDiagnosticsExportSection(name: string, provider: () => unknown): void {
+  exportSections.set(name, provider);
+}
+
+function renderExportSections(): string {
+  const sections: string[] = [];
+  for (const [name, provider] of exportSections) {
+    let content: unknown;
+    try {
+      content = redactData(provider());
+    } catch (error) {
+      content = { error: redactData(error) };
+    }
+    sections.push(`## ${name}`, JSON.stringify(content, null, 2), '');
+  }
+  return sections.join('\n');
+}
+
 export function copyDiagnosticsToClipboard(maxBytes = 256 * 1024): number {
   const diagnostics = readDiagnosticsTail(maxBytes);
   clipboard.writeText(diagnostics);
@@ -218,8 +279,10 @@ export function exportDiagnosticsLog(
     `sourceLogPath=${getDiagnosticsLogPath()}`,
     '',
   ].join('\n');
+  const sections = renderExportSections();
+  const logHeader = sections.length > 0 ? '## log\n' : '';
 
-  fs.writeFileSync(resolvedPath, `${header}${diagnostics}`, 'utf-8');
+  fs.writeFileSync(resolvedPath, `${header}${sections}${logHeader}${diagnostics}`, 'utf-8');
   logDiagnostic('info', 'diagnostics.export', 'Exported diagnostics log', {
     path: resolvedPath,
     bytes: Buffer.byteLength(diagnostics, 'utf-8'),
@@ -7,6 +7,8 @@
 import {
   app,
   BrowserWindow,
+  clipboard,
+  dialog,
   shell,
   ipcMain,
   Notification,
@@ -16,10 +18,26 @@ import {
   NativeImage,
   safeStorage,
 } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
 import * as path from 'path';
 import Store from 'electron-store';
 import { autoUpdater } from 'electron-updater';
-import { loadConfig, isTrustedOrigin, AppConfig } from '../shared/config';
+import {
+  loadConfigReport,
+  isTrustedOrigin,
+  getDeepLinkSchemes,
+  isValidProfileName,
+  diffConfig,
+  retainRestartRequiredFields,
+  getManagedSettings,
+  getDefaultConfigPath,
+  parseConfigText,
+  redactConfigSecrets,
+  writeConfigFile,
+  AppConfig,
+  ConfigFileMigration,
+} from '../shared/config';
 import {
   IPC_CHANNELS,
   TrayStatus,
@@ -28,31 +46,131 @@ import {
   AppHealthStatus,
   UpdateInfo,
   UpdateStatus,
+  ConfigProfilesInfo,
+  ConfigProblem,
+  ConfigProvenance,
+  SettingsSaveResult,
+  SettingsState,
+  CustomDeepLinkEvent,
+  StorageChangeEvent,
+  StorageSetOptions,
+  StorageUsage,
+  StorageBackupExportResult,
+  StorageBackupImportSummary,
+  DEEP_LINK_ACK_TIMEOUT_MS,
+  STORAGE_MAX_BATCH_ENTRIES,
+  STORAGE_MAX_BATCH_CHARS,
+  DeepLinkHistoryEntry,
+  DeepLinkOutcome,
+  DeepLinkSource,
 } from '../shared/types';
-import { extractDeepLinkFromArgv, parseDeepLink } from '../shared/deeplink';
+import {
+  buildDeepLink,
+  DeepLinkCommand,
+  DeepLinkConfirmationAction,
+  DeepLinkDecisions,
+  DeepLinkKeys,
+  describeDeepLinkCommand,
+  extractDeepLinkFromArgv,
+  getDeepLinkScheme,
+  getCustomDeepLinkFallbackPath,
+  getDeepLinkConfirmationAction,
+  getDeepLinkTarget,
+  getRouteForPageUrl,
+  parseCustomDeepLink,
+  parseDeepLink,
+  parseDeepLinkDecisions,
+  requiresDeepLinkSignature,
+  verifyDeepLinkSignature,
+  DeepLinkVerification,
+} from '../shared/deeplink';
+import { appendDeepLinkHistory, isReplayableDeepLink, parseDeepLinkHistory } from '../shared/deeplink-history';
+import {
+  DEEP_LINK_ROUTE_COALESCE_MS,
+  DeepLinkDropReason,
+  admitDeepLink,
+  coalesceRouteLinks,
+  createDeepLinkThrottleState,
+  getDeepLinkThrottleKey,
+} from '../shared/deeplink-throttle';
+import { getChannelNamespace, isChannelAllowed, resolveCapabilities } from '../shared/capabilities';
 import {
   LOCAL_STORAGE_NAMESPACE,
   SECURE_STORAGE_NAMESPACE,
   SECURE_KEY_INDEX,
+  DEEP_LINK_DECISIONS_KEY,
+  DEEP_LINK_HISTORY_KEY,
+  StoredValueEnvelope,
   getLocalStorageKey,
   getSecureStorageKey,
+  isReservedStorageKey,
   isValidStorageKey,
+  checkStorageQuota,
+  clearStoredValues,
+  createStoredValueEnvelope,
+  getStorageEntryBytes,
+  getStoredEntries,
+  getStoredEntrySizes,
+  listExpiredStorageKeys,
+  listStorageKeys,
+  projectStorageUsage,
   resolveStoredValue,
+  storageKeysOverlap,
 } from '../shared/storage';
+import {
+  STORAGE_BACKUP_EXTENSION,
+  StorageBackupContents,
+  decryptStorageBackup,
+  encryptStorageBackup,
+  validateBackupPassphrase,
+} from '../shared/storage-backup';
 import {
   initializeDiagnostics,
   logDiagnostic,
   copyDiagnosticsToClipboard,
   exportDiagnosticsLog,
   getDiagnosticsLogPath,
+  setDiagnosticsLevel,
+  registerDiagnosticsExportSection,
+  redactUrlForDiagnostics,
 } from './diagnostics';
 import { getSplashDataUrl, shouldShowSplash } from './splash';
+import { watchConfigFile } from './config-watcher';
+import { runCliCommand } from './cli';
+import { parseCliArgs } from '../shared/cli';
+import {
+  applySettingsUpdate,
+  buildSettingsUpdate,
+  getPersistedTrustedOrigins,
+  getSettingsOverrides,
+  getSettingsValues,
+} from '../shared/settings';
+import { SettingsWindowSection, isSettingsWindowSender, openSettingsWindow } from './settings-window';
+
+// -----------------------------------------------------------------------------
+// Command Line
+// -----------------------------------------------------------------------------
+
+// Config commands run and exit before the single-instance lock or any window.
+const cliOptions = parseCliArgs(process.argv.slice(1));
+const cliExitCode = runCliCommand(cliOptions);
+if (cliExitCode !== null) {
+  process.exit(cliExitCode);
+}
 
 // -----------------------------------------------------------------------------
 // Configuration
 // -----------------------------------------------------------------------------
 
-const config: AppConfig = loadConfig();
+const initialConfigReport = loadConfigReport({ configPath: cliOptions.configPath });
+let config: AppConfig = initialConfigReport.config;
+let configProblems: ConfigProblem[] = initialConfigReport.problems;
+let configProvenance: ConfigProvenance = initialConfigReport.provenance;
+/** Profile chosen at runtime (tray, deep link, bridge); survives config reloads */
+let runtimeProfileOverride: string | undefined;
+/** Server chosen by a `connect` deep link; survives config reloads until a profile switch */
+let runtimeServerOverride: { appUrl: string; addedOrigins: string[] } | null = null;
+let stopConfigWatcher: (() => void) | null = null;
 
 // -----------------------------------------------------------------------------
 // Global State
@@ -68,12 +186,44 @@ let isSplashActive = false;
 let splashNavigationTimeoutId: ReturnType<typeof setTimeout> | null = null;
 let suppressSplashAutoNavigation = false;
 const appStartTime = Date.now();
-const pendingDeepLinks: string[] = [];
+
+type IncomingDeepLink = { rawUrl: string; source: DeepLinkSource };
+type ParsedDeepLink = IncomingDeepLink & { parsed: DeepLinkCommand; signed: boolean; scheme: string };
+type CustomDeepLink = Extract<DeepLinkCommand, { kind: 'custom' }> & { scheme: string };
+type ConnectDeepLink = Extract<DeepLinkCommand, { kind: 'connect' }>;
+
+const pendingDeepLinks: IncomingDeepLink[] = [];
+// Signature checks may be async (secureStorage); links still run in arrival order.
+let deepLinkQueue: Promise<void> = Promise.resolve();
+// Custom deep links wait here until APP_URL has finished loading.
+const MAX_BUFFERED_CUSTOM_DEEP_LINKS = 20;
+const bufferedCustomDeepLinks: CustomDeepLink[] = [];
+const awaitingDeepLinkAcks = new Map<string, { link: CustomDeepLink; timeoutId: ReturnType<typeof setTimeout> }>();
+let isAppPageLoaded = false;
+// Loaded lazily from the local store; raw URLs are only kept in memory for replay.
+let deepLinkHistory: DeepLinkHistoryEntry[] | null = null;
+const deepLinkHistoryRawUrls = new Map<string, string>();
+const TRAY_RECENT_DEEP_LINKS = 10;
+// Duplicate, rate-limited and coalesced links are counted and logged together.
+const deepLinkThrottle = createDeepLinkThrottleState();
+const DEEP_LINK_DROP_LOG_INTERVAL_MS = 5000;
+let pendingRouteDeepLink: {
+  link: ParsedDeepLink;
+  /** Links held with the route link (including it), confirmed together */
+  batch: ParsedDeepLink[];
+  timeoutId: ReturnType<typeof setTimeout>;
+} | null = null;
+let droppedDeepLinks: Record<string, number> = {};
+const droppedDeepLinkTotals: Record<DeepLinkDropReason, number> = { duplicate: 0, rate_limited: 0, coalesced: 0 };
+let droppedDeepLinkLogTimeoutId: ReturnType<typeof setTimeout> | null = null;
 let localStore: Store<Record<string, string>> | null = null;
 
 // Update state
 let currentUpdateInfo: UpdateInfo = { status: 'idle' };
 let updateCheckIntervalId: ReturnType<typeof setInterval> | null = null;
+// Expired local storage values are removed this often
+const STORAGE_SWEEP_INTERVAL_MS = 60_000;
+let storageSweepIntervalId: ReturnType<typeof setInterval> | null = null;
 
 type KeytarClient = {
   getPassword(service: string, account: string): Promise<string | null>;
@@ -87,6 +237,8 @@ let keytarClient: KeytarClient | null = null;
 let keytarLoadError: Error | null = null;
 let secureFallbackStore: Store<Record<string, string>> | null = null;
 let keytarFallbackWarned = false;
+// Size of each secure value by key, measured on first use and kept current by the write paths
+let secureEntrySizes: Map<string, number> | null = null;
 const VALID_TRAY_STATUSES: readonly TrayStatus[] = ['connected', 'degraded', 'disconnected'];
 const VALID_APP_HEALTH_STATUSES: readonly AppHealthStatus[] = ['healthy', 'warning', 'error', 'unknown'];
 
@@ -117,9 +269,9 @@ if (!gotTheLock) {
       mainWindow.focus();
     }
 
-    const deepLinkUrl = extractDeepLinkFromArgv(commandLine, config.deepLinkScheme);
+    const deepLinkUrl = extractDeepLinkFromArgv(commandLine, getDeepLinkSchemes(config));
     if (deepLinkUrl) {
-      handleDeepLink(deepLinkUrl);
+      handleDeepLink(deepLinkUrl, 'second-instance');
     }
   });
 }
@@ -128,9 +280,9 @@ if (!gotTheLock) {
 app.on('open-url', (event, url) => {
   event.preventDefault();
   if (app.isReady()) {
-    handleDeepLink(url);
+    handleDeepLink(url, 'open-url');
   } else {
-    pendingDeepLinks.push(url);
+    pendingDeepLinks.push({ rawUrl: url, source: 'open-url' });
   }
 });
 
@@ -280,7 +432,7 @@ function createWindow(): BrowserWindow {
   mainWindow.webContents.on('will-navigate', (event, url) => {
     if (isDeepLinkUrl(url)) {
       event.preventDefault();
-      handleDeepLink(url);
+      handleDeepLink(url, 'in-page');
       return;
     }
 
@@ -298,7 +450,7 @@ function createWindow(): BrowserWindow {
   // Block new window creation for untrusted origins
   mainWindow.webContents.setWindowOpenHandler(({ url }) => {
     if (isDeepLinkUrl(url)) {
-      handleDeepLink(url);
+      handleDeepLink(url, 'in-page');
       return { action: 'deny' };
     }
 
@@ -359,8 +511,17 @@ function createWindow(): BrowserWindow {
     // App URL finished loading
     isFallbackPageActive = false;
     isSplashActive = false;
+    // The fallback page is a data URL and must not receive custom deep links.
+    isAppPageLoaded = isTrustedOrigin(currentUrl, config);
     logDiagnostic('info', 'window.did_finish_load', 'Main window finished loading APP_URL');
     updateTrayStatus('connected');
+    if (isAppPageLoaded) {
+      flushBufferedCustomDeepLinks();
+    }
+  });
+
+  mainWindow.webContents.on('did-start-loading', () => {
+    isAppPageLoaded = false;
   });
 
   return mainWindow;
@@ -371,7 +532,7 @@ function getMainWindow(): BrowserWindow {
 }
 
 function isDeepLinkUrl(url: string): boolean {
-  return url.toLowerCase().startsWith(`${config.deepLinkScheme.toLowerCase()}://`);
+  return getDeepLinkScheme(url, getDeepLinkSchemes(config)) !== null;
 }
 
 function escapeHtml(value: string): string {
@@ -462,6 +623,9 @@ function validateStorageKey(key: unknown): string {
   if (!/^[a-zA-Z0-9_.-]+$/.test(key)) {
     throw new Error('Storage key contains invalid characters');
   }
+  if (isReservedStorageKey(key)) {
+    throw new Error(`Storage key ${key} is reserved`);
+  }
   return key;
 }
 
@@ -475,6 +639,55 @@ function validateStorageValue(value: unknown): string {
   return value;
 }
 
+function validateStorageTtl(options: unknown): number | undefined {
+  if (options === undefined || options === null) return undefined;
+  if (typeof options !== 'object' || Array.isArray(options)) {
+    throw new Error('Storage options must be an object');
+  }
+  const { ttlMs } = options as StorageSetOptions;
+  if (ttlMs === undefined) return undefined;
+  if (typeof ttlMs !== 'number' || !Number.isSafeInteger(ttlMs) || ttlMs <= 0) {
+    throw new Error('Storage ttlMs must be a positive integer');
+  }
+  return ttlMs;
+}
+
+function validateStorageKeyList(keys: unknown): string[] {
+  if (!Array.isArray(keys)) {
+    throw new Error('Storage keys must be an array');
+  }
+  if (keys.length > STORAGE_MAX_BATCH_ENTRIES) {
+    throw new Error(`Storage batch exceeds ${STORAGE_MAX_BATCH_ENTRIES} keys`);
+  }
+  return keys.map(validateStorageKey);
+}
+
+function validateStorageEntries(entries: unknown): Array<[string, string]> {
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error('Storage entries must be an object');
+  }
+  const pairs = Object.entries(entries);
+  if (pairs.length > STORAGE_MAX_BATCH_ENTRIES) {
+    throw new Error(`Storage batch exceeds ${STORAGE_MAX_BATCH_ENTRIES} entries`);
+  }
+  let size = 0;
+  const result = pairs.map(([key, value]): [string, string] => {
+    const validKey = validateStorageKey(key);
+    const validValue = validateStorageValue(value);
+    size += validKey.length + validValue.length;
+    return [validKey, validValue];
+  });
+  if (size > STORAGE_MAX_BATCH_CHARS) {
+    throw new Error('Storage batch exceeds 4MB');
+  }
+  return result;
+}
+
+function validateStorageKeyPrefix(prefix: unknown): string {
+  if (prefix === undefined || prefix === '') return '';
+  return validateStorageKey(prefix);
+}
+
 function getLocalStore(): Store<Record<string, string>> {
   if (!localStore) {
     localStore = new Store<Record<string, string>>({
@@ -494,6 +707,13 @@ function localGetValue(key: string): string | null {
   const namespacedKey = getLocalStoreKey(key);
   const resolved = resolveStoredValue(store.get(namespacedKey), store.get(key));
 
+  if (resolved.expired) {
+    // The sweep would remove it later; reads treat it as gone right away.
+    store.delete(namespacedKey);
+    broadcastStorageChange({ key, namespace: 'storage', kind: 'remove' });
+    return null;
+  }
+
   if (resolved.shouldMigrateLegacyValue && resolved.value !== null) {
     // Backward compatibility: migrate legacy unscoped keys to namespaced storage.
     store.set(namespacedKey, resolved.value);
@@ -504,27 +724,105 @@ function localGetValue(key: string): string | null {
   return resolved.value;
 }
 
-function localSetValue(key: string, value: string): void {
-  getLocalStore().set(getLocalStoreKey(key), value);
+/**
+ * Tell every window showing a trusted page (or the fallback page) that may
+ * use the namespace about a storage change. Values are never sent.
+ */
+function broadcastStorageChange(change: StorageChangeEvent): void {
+  const channel = change.namespace === 'storage' ? IPC_CHANNELS.STORAGE_CHANGED : IPC_CHANNELS.SECURE_STORAGE_CHANGED;
+  for (const windowRef of BrowserWindow.getAllWindows()) {
+    if (windowRef.isDestroyed()) continue;
+    const pageUrl = windowRef.webContents.getURL();
+    const isAppPage =
+      isTrustedOrigin(pageUrl, config) ||
+      (windowRef === mainWindow && isFallbackPageActive && pageUrl.startsWith('data:text/html'));
+    if (!isAppPage || !isChannelAllowed(channel, resolveCapabilities(pageUrl, config.capabilities))) continue;
+    windowRef.webContents.send(channel, change);
+  }
+}
+
+function localSetValue(key: string, value: string, ttlMs?: number): void {
+  getLocalStore().set(
+    getLocalStoreKey(key),
+    ttlMs === undefined ? value : createStoredValueEnvelope(value, ttlMs)
+  );
+  broadcastStorageChange({ key, namespace: 'storage', kind: 'set' });
+}
+
+/**
+ * Write several local values at once. Envelopes (values with a TTL, e.g. from
+ * a backup) are stored as they are.
+ */
+function localSetValues(entries: Array<[string, string | StoredValueEnvelope]>): void {
+  if (entries.length === 0) return;
+  // One write for the whole batch instead of one per key. The store is typed
+  // for plain values, but envelopes live under the same keys (see localSetValue).
+  const values = Object.fromEntries(entries.map(([key, value]) => [getLocalStoreKey(key), value]));
+  getLocalStore().set(values as Record<string, string>);
+  for (const [key] of entries) {
+    broadcastStorageChange({ key, namespace: 'storage', kind: 'set' });
+  }
+}
+
+/**
+ * Remove local values whose TTL has run out
+ */
+function sweepExpiredLocalValues(): void {
+  const store = getLocalStore();
+  const expiredKeys = listExpiredStorageKeys(store.get(LOCAL_STORAGE_NAMESPACE));
+  if (expiredKeys.length === 0) return;
+
+  for (const key of expiredKeys) {
+    store.delete(getLocalStoreKey(key));
+    broadcastStorageChange({ key, namespace: 'storage', kind: 'remove' });
+  }
+  logStorageEvent('info', 'Removed expired local storage values', { count: expiredKeys.length });
+}
+
+function startStorageSweep(): void {
+  sweepExpiredLocalValues();
+  storageSweepIntervalId = setInterval(sweepExpiredLocalValues, STORAGE_SWEEP_INTERVAL_MS);
+}
+
+function getLocalStorageUsage(): StorageUsage {
+  const sizes = getStoredEntrySizes(getLocalStore().get(LOCAL_STORAGE_NAMESPACE));
+  return { ...projectStorageUsage(sizes), ...config.storageQuotas.storage };
+}
+
+/**
+ * Reject a write that would take local storage over its quota
+ *
+ * @param replace Whether the write replaces every existing value
+ */
+function assertLocalStorageQuota(entries: Array<[string, string]>, replace = false): void {
+  const sizes = replace ? new Map<string, number>() : getStoredEntrySizes(getLocalStore().get(LOCAL_STORAGE_NAMESPACE));
+  const problem = checkStorageQuota('storage', sizes, entries, config.storageQuotas.storage);
+  if (problem) {
+    logStorageEvent('warn', 'Rejected local storage write over quota', { count: entries.length });
+    throw new Error(problem);
+  }
+}
+
+function listLocalKeys(prefix: string): string[] {
+  return listStorageKeys(getLocalStore().get(LOCAL_STORAGE_NAMESPACE), prefix);
 }
 
 function localDeleteValue(key: string): void {
   const store = getLocalStore();
   store.delete(getLocalStoreKey(key));
   store.delete(key);
+  broadcastStorageChange({ key, namespace: 'storage', kind: 'remove' });
 }
 
-function clearLocalValues(): void {
+function clearLocalValues(): number {
   const store = getLocalStore();
-  const keysToDelete = Object.keys(store.store).filter((key) =>
-    key.startsWith(`${LOCAL_STORAGE_NAMESPACE}.`)
-  );
+  // electron-store nests dotted keys, so the namespace is one object.
+  const count = listStorageKeys(store.get(LOCAL_STORAGE_NAMESPACE)).length;
+  store.delete(LOCAL_STORAGE_NAMESPACE);
 
-  for (const key of keysToDelete) {
-    store.delete(key);
-  }
-
-  logStorageEvent('info', 'Cleared local storage values', { count: keysToDelete.length });
+  logStorageEvent('info', 'Cleared local storage values', { count });
+  broadcastStorageChange({ key: null, namespace: 'storage', kind: 'clear' });
+  return count;
 }
 
 function getSecureStoreKey(key: string): string {
@@ -643,6 +941,8 @@ async function secureSetValue(key: string, value: string): Promise<void> {
     const keytar = await getKeytar();
     await keytar.setPassword(KEYCHAIN_SERVICE_NAME, accountKey, value);
     trackSecureKey(key);
+    secureEntrySizes?.set(key, getStorageEntryBytes(key, value));
+    broadcastStorageChange({ key, namespace: 'secureStorage', kind: 'set' });
     return;
   } catch (error) {
     warnKeytarFallback(error);
@@ -655,6 +955,44 @@ async function secureSetValue(key: string, value: string): Promise<void> {
   const encryptedValue = safeStorage.encryptString(value).toString('base64');
   getSecureFallbackStore().set(fallbackKey, encryptedValue);
   trackSecureKey(key);
+  secureEntrySizes?.set(key, getStorageEntryBytes(key, value));
+  broadcastStorageChange({ key, namespace: 'secureStorage', kind: 'set' });
+}
+
+/**
+ * Size of each tracked secure value. Values live in the keychain, so they are
+ * read once and the cache is updated on every write afterwards.
+ */
+async function getSecureEntrySizes(): Promise<Map<string, number>> {
+  if (secureEntrySizes) return secureEntrySizes;
+
+  const sizes = new Map<string, number>();
+  for (const key of getTrackedSecureKeys()) {
+    const value = await secureGetValue(key);
+    if (value !== null) sizes.set(key, getStorageEntryBytes(key, value));
+  }
+  secureEntrySizes = sizes;
+  return sizes;
+}
+
+async function getSecureStorageUsage(): Promise<StorageUsage> {
+  return { ...projectStorageUsage(await getSecureEntrySizes()), ...config.storageQuotas.secureStorage };
+}
+
+/**
+ * Reject a renderer write that would take secure storage over its quota
+ */
+async function assertSecureStorageQuota(key: string, value: string): Promise<void> {
+  const problem = checkStorageQuota(
+    'secureStorage',
+    await getSecureEntrySizes(),
+    [[key, value]],
+    config.storageQuotas.secureStorage
+  );
+  if (problem) {
+    logStorageEvent('warn', 'Rejected secure storage write over quota', { key });
+    throw new Error(problem);
+  }
 }
 
 function decryptFallbackSecureValue(encryptedValue: string, key: string): string | null {
@@ -737,10 +1075,36 @@ async function secureDeleteValue(key: string): Promise<void> {
   fallbackStore.delete(fallbackKey);
   fallbackStore.delete(key);
   untrackSecureKey(key);
+  secureEntrySizes?.delete(key);
+  broadcastStorageChange({ key, namespace: 'secureStorage', kind: 'remove' });
 }
 
+/**
+ * The secure key holding the deep link signing secret is for the main process
+ * only: a page that could read or replace it could sign its own links. Keys
+ * under or above it are reserved too, since writing them would replace it.
+ */
+function isReservedSecureKey(key: string): boolean {
+  const reservedKey = config.deepLinkSigning.secureStorageKey;
+  return reservedKey !== undefined && storageKeysOverlap(key, reservedKey);
+}
+
+function assertSecureKeyNotReserved(key: string): void {
+  if (isReservedSecureKey(key)) {
+    logStorageEvent('warn', 'Rejected bridge access to the deep link signing secret', { key });
+    throw new Error(`secureStorage key ${key} is reserved for deep link signing`);
+  }
+}
+
+/**
+ * Remove every secure value except the deep link signing secret.
+ */
 async function clearSecureValues(): Promise<void> {
-  const trackedKeys = getTrackedSecureKeys();
+  const reservedKey = config.deepLinkSigning.secureStorageKey;
+  const allTrackedKeys = getTrackedSecureKeys();
+  const trackedKeys = allTrackedKeys.filter((key) => key !== reservedKey);
+  // Keychain accounts and fallback store paths are the same namespaced key.
+  const keptAccounts = new Set(reservedKey ? [getSecureKeychainAccount(reservedKey), reservedKey] : []);
   let keychainDeleteCount = 0;
 
   try {
@@ -748,6 +1112,7 @@ async function clearSecureValues(): Promise<void> {
     if (typeof keytar.findCredentials === 'function') {
       const credentials = await keytar.findCredentials(KEYCHAIN_SERVICE_NAME);
       for (const credential of credentials) {
+        if (keptAccounts.has(credential.account)) continue;
         try {
           await keytar.deletePassword(KEYCHAIN_SERVICE_NAME, credential.account);
           keychainDeleteCount += 1;
@@ -778,93 +1143,1097 @@ async function clearSecureValues(): Promise<void> {
     warnKeytarFallback(error);
   }
 
-  const fallbackStore = getSecureFallbackStore();
-  const fallbackKeysToDelete = Object.keys(fallbackStore.store);
-  for (const key of fallbackKeysToDelete) {
-    fallbackStore.delete(key);
+  const fallbackStore = getSecureFallbackStore();
+  const { remaining, removed: fallbackKeysToDelete } = clearStoredValues(fallbackStore.store, keptAccounts);
+  fallbackStore.store = remaining as Record<string, string>;
+
+  const keptKeys = allTrackedKeys.filter((key) => key === reservedKey);
+  writeSecureKeyIndex(new Set(keptKeys));
+  // Kept values are measured again on the next usage check.
+  secureEntrySizes = keptKeys.length > 0 ? null : new Map();
+  logStorageEvent('info', 'Cleared secure storage values', {
+    count: Math.max(keychainDeleteCount, fallbackKeysToDelete.length, trackedKeys.length),
+  });
+  broadcastStorageChange({ key: null, namespace: 'secureStorage', kind: 'clear' });
+}
+
+// -----------------------------------------------------------------------------
+// Storage Backups
+// -----------------------------------------------------------------------------
+
+type StorageBackupSource = 'bridge' | 'settings-window';
+
+/**
+ * Backups touch secure storage on behalf of a `storage` call, so the sender
+ * also needs the secureStorage capability.
+ */
+function canSenderUseSecureStorage(event: Electron.IpcMainInvokeEvent): boolean {
+  const capabilities = resolveCapabilities(event.senderFrame?.url ?? '', config.capabilities);
+  return isChannelAllowed(IPC_CHANNELS.SECURE_STORAGE_SET, capabilities);
+}
+
+function validateBackupImportMode(mode: unknown): 'merge' | 'replace' {
+  if (mode === undefined) return 'merge';
+  if (mode !== 'merge' && mode !== 'replace') {
+    throw new Error('Backup import mode must be "merge" or "replace"');
+  }
+  return mode;
+}
+
+/**
+ * Ask for a backup file location and write local (and optionally secure)
+ * storage to it, encrypted with the passphrase. Secure values are read
+ * through secureGetValue, so keytar and the safeStorage fallback both work.
+ * The deep link signing secret is left out.
+ */
+async function exportStorageBackup(
+  parent: BrowserWindow | null,
+  options: { passphrase: string; includeSecure: boolean },
+  source: StorageBackupSource
+): Promise<StorageBackupExportResult | null> {
+  const contents: StorageBackupContents = {
+    createdAt: new Date().toISOString(),
+    local: getStoredEntries(getLocalStore().get(LOCAL_STORAGE_NAMESPACE)),
+  };
+  if (options.includeSecure) {
+    const secure: Record<string, string> = {};
+    for (const key of getTrackedSecureKeys()) {
+      if (isReservedSecureKey(key)) continue;
+      const value = await secureGetValue(key);
+      if (value !== null) secure[key] = value;
+    }
+    contents.secure = secure;
+  }
+
+  const timestamp = contents.createdAt.replace(/[-:]/g, '').replace(/\..*$/, '');
+  const dialogOptions: Electron.SaveDialogOptions = {
+    title: 'Export Storage Backup',
+    defaultPath: path.join(app.getPath('downloads'), `switchboard-storage-${timestamp}.${STORAGE_BACKUP_EXTENSION}`),
+    filters: [{ name: 'Switchboard storage backup', extensions: [STORAGE_BACKUP_EXTENSION] }],
+  };
+  const choice = parent ? await dialog.showSaveDialog(parent, dialogOptions) : await dialog.showSaveDialog(dialogOptions);
+  if (choice.canceled || !choice.filePath) return null;
+
+  fs.writeFileSync(choice.filePath, encryptStorageBackup(contents, options.passphrase), { encoding: 'utf-8', mode: 0o600 });
+  const result: StorageBackupExportResult = {
+    path: choice.filePath,
+    localCount: Object.keys(contents.local).length,
+    secureCount: Object.keys(contents.secure ?? {}).length,
+  };
+  logDiagnostic('info', 'storage.backup_exported', 'Exported storage backup', {
+    ...result,
+    includeSecure: options.includeSecure,
+    source,
+  });
+  return result;
+}
+
+/**
+ * Ask for a backup file and restore it. The whole backup is checked against
+ * the storage quotas before anything is written.
+ *
+ * @param allowSecure Whether the caller may write secure storage
+ */
+async function importStorageBackup(
+  parent: BrowserWindow | null,
+  options: { passphrase: string; mode: 'merge' | 'replace' },
+  allowSecure: boolean,
+  source: StorageBackupSource
+): Promise<StorageBackupImportSummary | null> {
+  const dialogOptions: Electron.OpenDialogOptions = {
+    title: 'Import Storage Backup',
+    properties: ['openFile'],
+    filters: [{ name: 'Switchboard storage backup', extensions: [STORAGE_BACKUP_EXTENSION] }],
+  };
+  const choice = parent ? await dialog.showOpenDialog(parent, dialogOptions) : await dialog.showOpenDialog(dialogOptions);
+  if (choice.canceled || choice.filePaths.length === 0) return null;
+
+  const filePath = choice.filePaths[0];
+  const { contents, invalidEntries } = decryptStorageBackup(fs.readFileSync(filePath, 'utf-8'), options.passphrase);
+  if (contents.secure && !allowSecure) {
+    throw new Error('This backup contains secure storage values, which this page may not write');
+  }
+
+  const now = Date.now();
+  const localEntries = Object.entries(getStoredEntries(contents.local, now));
+  const secureEntries = Object.entries(contents.secure ?? {}).filter(([key]) => !isReservedSecureKey(key));
+  const skipped =
+    invalidEntries +
+    Object.keys(contents.local).length -
+    localEntries.length +
+    Object.keys(contents.secure ?? {}).length -
+    secureEntries.length;
+
+  const replace = options.mode === 'replace';
+  assertLocalStorageQuota(
+    localEntries.map(([key, value]): [string, string] => [key, typeof value === 'string' ? value : value.value]),
+    replace
+  );
+  const secureProblem = contents.secure
+    ? checkStorageQuota(
+        'secureStorage',
+        replace ? new Map() : await getSecureEntrySizes(),
+        secureEntries,
+        config.storageQuotas.secureStorage
+      )
+    : null;
+  if (secureProblem) {
+    logStorageEvent('warn', 'Rejected secure storage write over quota', { count: secureEntries.length });
+    throw new Error(secureProblem);
+  }
+
+  const localRemoved = replace ? clearLocalValues() : 0;
+  // Values with a TTL keep their original expiry.
+  localSetValues(localEntries);
+
+  let secureRemoved = 0;
+  if (contents.secure) {
+    if (replace) {
+      secureRemoved = getTrackedSecureKeys().filter((key) => !isReservedSecureKey(key)).length;
+      await clearSecureValues();
+    }
+    for (const [key, value] of secureEntries) {
+      await secureSetValue(key, value);
+    }
+  }
+
+  const summary: StorageBackupImportSummary = {
+    path: filePath,
+    backupCreatedAt: contents.createdAt,
+    mode: options.mode,
+    localImported: localEntries.length,
+    localRemoved,
+    secureImported: secureEntries.length,
+    secureRemoved,
+    skipped,
+  };
+  logDiagnostic('info', 'storage.backup_imported', 'Imported storage backup', { ...summary, source });
+  return summary;
+}
+
+function registerDeepLinkProtocol(): void {
+  if (!config.enableDeepLinks) return;
+
+  for (const scheme of getDeepLinkSchemes(config)) {
+    const registered = app.setAsDefaultProtocolClient(scheme);
+    console.log(
+      registered
+        ? `Registered deep-link protocol: ${scheme}://`
+        : `Protocol registration skipped/failed: ${scheme}://`
+    );
+  }
+}
+
+function handleDeepLink(rawUrl: string, source: DeepLinkSource): void {
+  handleDeepLinkBatch([{ rawUrl, source }]);
+}
+
+/**
+ * Parse, throttle, verify and confirm a batch of deep links, then run them in
+ * order. A batch asks for confirmation at most once. Links replayed from the
+ * history are not throttled.
+ */
+function handleDeepLinkBatch(links: IncomingDeepLink[]): void {
+  if (!config.enableDeepLinks) {
+    for (const { rawUrl } of links) {
+      console.warn(`Deep link ignored because deep links are disabled: ${rawUrl}`);
+      logDiagnostic('warn', 'deeplink.disabled', 'Ignored deep link because feature is disabled', {
+        rawUrl,
+      });
+    }
+    links.forEach((link) => recordDeepLink(link, null, 'disabled'));
+    return;
+  }
+
+  const parsedLinks: ParsedDeepLink[] = [];
+  for (const link of links) {
+    const { rawUrl } = link;
+    const scheme = getDeepLinkScheme(rawUrl, getDeepLinkSchemes(config)) ?? config.deepLinkScheme;
+    const parsed = parseDeepLink(rawUrl, scheme) ??
+      parseCustomDeepLink(rawUrl, scheme, Object.keys(config.deepLinkActions));
+    if (!parsed) {
+      console.warn(`Ignored invalid deep link: ${rawUrl}`);
+      logDiagnostic('warn', 'deeplink.invalid', 'Ignored invalid deep link', { rawUrl, source: link.source });
+      recordDeepLink(link, null, 'invalid');
+      continue;
+    }
+    if (link.source !== 'replay') {
+      const dropReason = admitDeepLink(deepLinkThrottle, rawUrl, getDeepLinkThrottleKey(parsed), Date.now());
+      if (dropReason) {
+        countDroppedDeepLink(dropReason, link, parsed);
+        continue;
+      }
+    }
+    parsedLinks.push({ ...link, parsed, signed: false, scheme });
+  }
+
+  const { kept, coalesced } = coalesceRouteLinks(parsedLinks);
+  coalesced.forEach((link) => countDroppedDeepLink('coalesced', link, link.parsed));
+  const routeLink = kept.find((link) => link.parsed.kind === 'route' && link.source !== 'replay');
+  if (routeLink) {
+    holdRouteDeepLink(kept, routeLink);
+  } else {
+    enqueueDeepLinks(kept);
+  }
+}
+
+/**
+ * Hold a batch with a `route` link briefly so that only the last route link
+ * of a burst spread over several arrivals loads. The rest of the batch waits
+ * with it, so one confirmation covers the whole batch.
+ */
+function holdRouteDeepLink(batch: ParsedDeepLink[], link: ParsedDeepLink): void {
+  let held = batch;
+  if (pendingRouteDeepLink) {
+    const pending = pendingRouteDeepLink;
+    clearTimeout(pending.timeoutId);
+    countDroppedDeepLink('coalesced', pending.link, pending.link.parsed);
+    held = [...pending.batch.filter((candidate) => candidate !== pending.link), ...batch];
+  }
+  const timeoutId = setTimeout(() => {
+    pendingRouteDeepLink = null;
+    enqueueDeepLinks(held);
+  }, DEEP_LINK_ROUTE_COALESCE_MS);
+  pendingRouteDeepLink = { link, batch: held, timeoutId };
+}
+
+/**
+ * Record a dropped link in the history and count it; counts are logged once
+ * per interval so that storms show up in diagnostics without flooding them.
+ */
+function countDroppedDeepLink(reason: DeepLinkDropReason, link: IncomingDeepLink, parsed: DeepLinkCommand): void {
+  recordDeepLink(link, parsed, 'dropped', reason);
+  const key = `${reason}:${getDeepLinkTarget(parsed)}`;
+  droppedDeepLinks[key] = (droppedDeepLinks[key] ?? 0) + 1;
+  droppedDeepLinkTotals[reason] += 1;
+  if (droppedDeepLinkLogTimeoutId) return;
+
+  droppedDeepLinkLogTimeoutId = setTimeout(() => {
+    const counts = droppedDeepLinks;
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    droppedDeepLinks = {};
+    droppedDeepLinkLogTimeoutId = null;
+    console.warn(`Dropped ${total} deep link(s) in the last ${DEEP_LINK_DROP_LOG_INTERVAL_MS / 1000}s`);
+    logDiagnostic('warn', 'deeplink.dropped', `Dropped ${total} deep link(s)`, {
+      intervalMs: DEEP_LINK_DROP_LOG_INTERVAL_MS,
+      counts,
+    });
+  }, DEEP_LINK_DROP_LOG_INTERVAL_MS);
+}
+
+function enqueueDeepLinks(parsedLinks: ParsedDeepLink[]): void {
+  if (parsedLinks.length === 0) return;
+
+  deepLinkQueue = deepLinkQueue
+    .then(async () => {
+      const verified: ParsedDeepLink[] = [];
+      for (const link of parsedLinks) {
+        const result = await verifyDeepLink(link.rawUrl, link.parsed);
+        if (result.ok) {
+          verified.push({ ...link, signed: result.signed });
+        } else {
+          recordDeepLink(link, link.parsed, 'rejected', result.reason);
+        }
+      }
+      const allowed = await confirmDeepLinks(verified);
+      for (const link of verified) {
+        if (!allowed.includes(link)) recordDeepLink(link, link.parsed, 'declined');
+      }
+      for (const link of allowed) {
+        try {
+          recordDeepLink(link, link.parsed, await runDeepLink(link));
+        } catch (error) {
+          // A link that fails (e.g. its scheme's profile is gone) does not stop the rest of the batch.
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(`Failed to run deep link (${reason}): ${link.rawUrl}`);
+          logDiagnostic('warn', 'deeplink.run_failed', 'Failed to run deep link', {
+            rawUrl: link.rawUrl,
+            target: getDeepLinkTarget(link.parsed),
+            error,
+          });
+          recordDeepLink(link, link.parsed, 'rejected', reason);
+        }
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to handle deep links:', error);
+      logDiagnostic('error', 'deeplink.failed', 'Failed to handle deep links', {
+        rawUrls: parsedLinks.map((link) => link.rawUrl),
+        error,
+      });
+    });
+}
+
+function readDeepLinkDecisions(): DeepLinkDecisions {
+  return parseDeepLinkDecisions(getLocalStore().get(DEEP_LINK_DECISIONS_KEY));
+}
+
+function rememberDeepLinkDecision(actions: DeepLinkConfirmationAction[], decision: 'allow' | 'deny'): void {
+  const decisions = readDeepLinkDecisions();
+  for (const action of actions) decisions[action] = decision;
+  getLocalStore().set(DEEP_LINK_DECISIONS_KEY, JSON.stringify(decisions));
+}
+
+// -----------------------------------------------------------------------------
+// Deep Link History
+// -----------------------------------------------------------------------------
+
+function getDeepLinkHistory(): DeepLinkHistoryEntry[] {
+  if (!deepLinkHistory) {
+    deepLinkHistory = parseDeepLinkHistory(getLocalStore().get(DEEP_LINK_HISTORY_KEY));
+  }
+  return deepLinkHistory;
+}
+
+/**
+ * Record the outcome of a received deep link in the persisted history.
+ */
+function recordDeepLink(
+  link: IncomingDeepLink,
+  parsed: DeepLinkCommand | null,
+  outcome: DeepLinkOutcome,
+  reason?: string
+): void {
+  const scheme = getDeepLinkScheme(link.rawUrl, getDeepLinkSchemes(config));
+  const entry: DeepLinkHistoryEntry = {
+    id: crypto.randomUUID(),
+    receivedAt: new Date().toISOString(),
+    source: link.source,
+    url: redactUrlForDiagnostics(link.rawUrl),
+    ...(scheme ? { scheme } : {}),
+    target: parsed ? getDeepLinkTarget(parsed) : null,
+    outcome,
+    ...(reason ? { reason } : {}),
+  };
+  deepLinkHistory = appendDeepLinkHistory(getDeepLinkHistory(), entry);
+  deepLinkHistoryRawUrls.set(entry.id, link.rawUrl);
+  for (const id of deepLinkHistoryRawUrls.keys()) {
+    if (!deepLinkHistory.some((kept) => kept.id === id)) deepLinkHistoryRawUrls.delete(id);
+  }
+
+  try {
+    getLocalStore().set(DEEP_LINK_HISTORY_KEY, JSON.stringify(deepLinkHistory));
+  } catch (error) {
+    logDiagnostic('warn', 'deeplink.history_persist_failed', 'Failed to persist deep link history', { error });
+  }
+  updateTrayMenu();
+}
+
+/**
+ * Handle a deep link from the history again, with the same signature checks
+ * and confirmation as an external link. Links received in this session replay
+ * with their original URL; older entries replay their redacted URL.
+ */
+function replayDeepLink(id: string): void {
+  const entry = getDeepLinkHistory().find((candidate) => candidate.id === id);
+  if (!entry) {
+    throw new Error(`Unknown deep link history entry: ${id}`);
+  }
+  if (!isReplayableDeepLink(entry)) {
+    throw new Error(`Deep link history entry ${id} cannot be replayed (${entry.outcome})`);
+  }
+  logDiagnostic('info', 'deeplink.replay', 'Replaying deep link from history', {
+    url: entry.url,
+    target: entry.target,
+  });
+  handleDeepLink(deepLinkHistoryRawUrls.get(id) ?? entry.url, 'replay');
+}
+
+/**
+ * `route` deep link to the view currently shown in the main window.
+ */
+function getCurrentViewLink(): string {
+  const route = mainWindow ? getRouteForPageUrl(mainWindow.webContents.getURL(), config.appUrl) : null;
+  if (!route) {
+    throw new Error('The current view is not part of APP_URL and cannot be linked');
+  }
+  return buildDeepLink({ kind: 'route', path: route }, config.deepLinkScheme);
+}
+
+function copyCurrentViewLink(source: 'tray' | 'bridge'): string {
+  const link = getCurrentViewLink();
+  clipboard.writeText(link);
+  logDiagnostic('info', 'deeplink.view_link_copied', 'Copied link to current view', {
+    source,
+    link: redactUrlForDiagnostics(link),
+  });
+  return link;
+}
+
+function getRecentDeepLinkMenuItems(): Electron.MenuItemConstructorOptions[] {
+  const recent = getDeepLinkHistory().slice(0, TRAY_RECENT_DEEP_LINKS);
+  if (recent.length === 0) {
+    return [{ label: 'No recent links', enabled: false }];
+  }
+  return recent.map((entry) => {
+    const time = new Date(entry.receivedAt).toLocaleTimeString();
+    const url = entry.url.length > 48 ? `${entry.url.slice(0, 47)}…` : entry.url;
+    return {
+      label: `${time}  ${url} (${entry.outcome})`,
+      enabled: isReplayableDeepLink(entry),
+      click: () => {
+        logDiagnostic('info', 'tray.deeplink_replay_click', 'Deep link replay selected from tray menu', {
+          target: entry.target,
+        });
+        replayDeepLink(entry.id);
+      },
+    };
+  });
+}
+
+/**
+ * Ask the user before running `quit`, `reload` or routes outside the allowlist
+ * that arrived from outside the app, including links replayed from the
+ * history. Signed links and in-page links run without asking. Returns the
+ * links that may run.
+ */
+async function confirmDeepLinks(links: ParsedDeepLink[]): Promise<ParsedDeepLink[]> {
+  const { enabled, routeAllowlist } = config.deepLinkConfirmation;
+  if (!enabled) return links;
+
+  const decisions = readDeepLinkDecisions();
+  const actionFor = (link: ParsedDeepLink): DeepLinkConfirmationAction | null =>
+    link.source === 'in-page' || link.signed ? null : getDeepLinkConfirmationAction(link.parsed, routeAllowlist);
+  const denied = new Set<ParsedDeepLink>();
+  const pending: ParsedDeepLink[] = [];
+  for (const link of links) {
+    const action = actionFor(link);
+    if (!action || decisions[action] === 'allow') continue;
+    if (decisions[action] === 'deny') {
+      denied.add(link);
+    } else {
+      pending.push(link);
+    }
+  }
+
+  if (pending.length > 0) {
+    const actions = [...new Set(pending.map((link) => actionFor(link) as DeepLinkConfirmationAction))];
+    const options: Electron.MessageBoxOptions = {
+      type: 'question',
+      title: 'Open Link',
+      message: pending.length === 1 ? 'Allow this link to run?' : `Allow these ${pending.length} links to run?`,
+      detail: pending.map((link) => `• ${describeDeepLinkCommand(link.parsed)}`).join('\n'),
+      buttons: ['Allow', 'Cancel'],
+      defaultId: 1,
+      cancelId: 1,
+      checkboxLabel: actions.length === 1 ? `Remember for "${actions[0]}" links` : 'Remember for these actions',
+      checkboxChecked: false,
+    };
+    const { response, checkboxChecked } = await showDeepLinkDialog(options);
+    const decision = response === 0 ? 'allow' : 'deny';
+
+    if (checkboxChecked) rememberDeepLinkDecision(actions, decision);
+    if (decision === 'deny') pending.forEach((link) => denied.add(link));
+    logDiagnostic('info', 'deeplink.confirmation', 'Asked to confirm deep links', {
+      rawUrls: pending.map((link) => link.rawUrl),
+      decision,
+      remembered: checkboxChecked,
+    });
+  }
+
+  for (const link of denied) {
+    logDiagnostic('warn', 'deeplink.declined', 'Deep link declined by user', {
+      rawUrl: link.rawUrl,
+      source: link.source,
+      target: getDeepLinkTarget(link.parsed),
+    });
+  }
+  return links.filter((link) => !denied.has(link));
+}
+
+function showDeepLinkDialog(options: Electron.MessageBoxOptions): Promise<Electron.MessageBoxReturnValue> {
+  const parent = mainWindow && mainWindow.isVisible() ? mainWindow : null;
+  return parent ? dialog.showMessageBox(parent, options) : dialog.showMessageBox(options);
+}
+
+/**
+ * Collect deep link verification keys from config and secureStorage.
+ */
+async function getDeepLinkKeys(): Promise<DeepLinkKeys> {
+  const { hmacSecrets, ed25519PublicKeys, secureStorageKey } = config.deepLinkSigning;
+  const keys: DeepLinkKeys = { hmacSecrets: [...hmacSecrets], ed25519PublicKeys: [...ed25519PublicKeys] };
+  if (!secureStorageKey) return keys;
+
+  try {
+    const storedSecret = await secureGetValue(secureStorageKey);
+    if (storedSecret) keys.hmacSecrets.push(storedSecret);
+  } catch (error) {
+    logDiagnostic('warn', 'deeplink.key_unavailable', 'Unable to read deep link secret from secure storage', {
+      key: redactStorageKeyForLog(secureStorageKey),
+      error,
+    });
+  }
+  return keys;
+}
+
+/**
+ * Check the `sig`/`exp` parameters of a deep link against `deepLinkSigning`.
+ */
+async function verifyDeepLink(rawUrl: string, parsed: DeepLinkCommand): Promise<DeepLinkVerification> {
+  const signing = config.deepLinkSigning;
+  const hasSignature = new URL(rawUrl).searchParams.has('sig');
+  // Skip the secureStorage lookup for links that are neither signed nor required to be.
+  const keys: DeepLinkKeys = hasSignature || requiresDeepLinkSignature(parsed, signing)
+    ? await getDeepLinkKeys()
+    : { hmacSecrets: [], ed25519PublicKeys: [] };
+  const result = verifyDeepLinkSignature(rawUrl, parsed, { policy: signing, keys });
+
+  if (!result.ok) {
+    console.warn(`Rejected deep link (${result.reason}): ${rawUrl}`);
+    logDiagnostic('warn', 'deeplink.signature_rejected', 'Rejected deep link that failed signature policy', {
+      rawUrl,
+      target: getDeepLinkTarget(parsed),
+      reason: result.reason,
+    });
+  }
+  return result;
+}
+
+async function runDeepLink(link: ParsedDeepLink): Promise<DeepLinkOutcome> {
+  const { rawUrl, parsed, scheme } = link;
+  logDiagnostic('info', 'deeplink.accepted', 'Handling deep link', { rawUrl, scheme, parsed });
+
+  // Schemes a profile sets itself run against that profile. A failed switch
+  // throws, and the caller records the link as rejected.
+  const boundProfile = config.deepLinkSchemeProfiles[scheme];
+  if (boundProfile && boundProfile !== config.activeProfile && parsed.kind !== 'profile') {
+    logDiagnostic('info', 'deeplink.scheme_profile', 'Switching to the profile bound to the link scheme', {
+      scheme,
+      profile: boundProfile,
+    });
+    switchProfile(boundProfile, 'deep-link');
+  }
+
+  const windowRef = getMainWindow();
+
+  switch (parsed.kind) {
+    case 'action':
+      if (parsed.action === 'quit') {
+        isQuitting = true;
+        app.quit();
+        return 'executed';
+      }
+
+      if (parsed.action === 'reload') {
+        reloadAppUrl('deep-link:reload');
+      } else if (parsed.action === 'settings') {
+        suppressSplashAutoNavigation = true;
+        cancelPendingSplashNavigation('deep-link:settings');
+        isSplashActive = false;
+        windowRef.loadURL(buildSettingsUrl()).catch((error) => {
+          console.error('Failed to open settings from deep link:', error);
+          loadFallbackPage('Connection Failed', 'Unable to open settings');
+          openLocalSettings('deep-link');
+        });
+      } else {
+        windowRef.show();
+        windowRef.focus();
+      }
+      return 'executed';
+
+    case 'route':
+      loadAppRoute(parsed.path, 'deep-link:route');
+      return 'executed';
+
+    case 'connect':
+      return (await connectFromDeepLink(parsed, link)) ? 'executed' : 'declined';
+
+    case 'custom':
+      deliverCustomDeepLink({ ...parsed, scheme });
+      windowRef.show();
+      windowRef.focus();
+      return 'forwarded';
+
+    case 'profile':
+      try {
+        switchProfile(parsed.name, 'deep-link');
+      } catch (error) {
+        console.warn(`Ignored deep link for unknown profile: ${parsed.name}`);
+        logDiagnostic('warn', 'deeplink.profile_unknown', 'Ignored deep link for unknown profile', {
+          profile: parsed.name,
+          error,
+        });
+      }
+      return 'executed';
+  }
+}
+
+/**
+ * Point the app at the server from a `connect` link, then load its route.
+ *
+ * Untrusted origins are only added after the user agrees. Trusted origins
+ * connect without asking when the link is signed, came from inside the app or
+ * confirmation is disabled. The switch lasts for the session unless the user
+ * chooses to keep it, which saves it to the user config file.
+ */
+async function connectFromDeepLink(command: ConnectDeepLink, link: ParsedDeepLink): Promise<boolean> {
+  const origin = new URL(command.url).origin;
+  const trusted = isTrustedOrigin(command.url, config);
+  const { lockedFields } = getManagedSettings(configProvenance);
+  if (lockedFields.includes('appUrl') || (!trusted && lockedFields.includes('trustedOrigins'))) {
+    console.warn(`Ignored connect deep link because the server is locked by policy: ${origin}`);
+    logDiagnostic('warn', 'deeplink.connect_locked', 'Ignored connect deep link locked by machine-wide policy', {
+      origin,
+    });
+    return false;
+  }
+
+  let persist = false;
+  const skipPrompt =
+    trusted &&
+    (link.signed || link.source === 'in-page' || !config.deepLinkConfirmation.enabled);
+  if (!skipPrompt) {
+    const { response, checkboxChecked } = await showDeepLinkDialog({
+      type: trusted ? 'question' : 'warning',
+      title: 'Connect to Server',
+      message: trusted ? `Connect to ${origin}?` : `${origin} is not a trusted origin. Trust it and connect?`,
+      detail: `Switchboard will load ${command.url}${command.route ? ` and open ${command.route}` : ''}.`,
+      buttons: [trusted ? 'Connect' : 'Trust and Connect', 'Cancel'],
+      defaultId: 1,
+      cancelId: 1,
+      checkboxLabel: 'Keep using this server after restart',
+      checkboxChecked: false,
+    });
+    if (response !== 0) {
+      logDiagnostic('warn', 'deeplink.declined', 'Deep link declined by user', {
+        rawUrl: link.rawUrl,
+        source: link.source,
+        target: 'connect',
+      });
+      return false;
+    }
+    persist = checkboxChecked;
+  }
+
+  const previousAppUrl = config.appUrl;
+  const addedOrigins = trusted ? [] : [origin];
+  // Save before applying the override so the settings diff sees the new values.
+  if (persist) {
+    try {
+      // Origins from other layers (env, profile, policy) stay out of the user file.
+      const trustedOrigins = getPersistedTrustedOrigins(readSettingsTargetFile(), addedOrigins);
+      const result = saveSettings(
+        { appUrl: command.url, ...(trustedOrigins ? { trustedOrigins } : {}) },
+        false,
+        'deep-link'
+      );
+      if (!result.saved) {
+        logDiagnostic('warn', 'deeplink.connect_persist_failed', 'Unable to keep server from connect deep link', {
+          problems: result.problems,
+        });
+      }
+    } catch (error) {
+      logDiagnostic('warn', 'deeplink.connect_persist_failed', 'Unable to keep server from connect deep link', {
+        error,
+      });
+    }
+  }
+
+  runtimeServerOverride = {
+    appUrl: command.url,
+    addedOrigins: [...(runtimeServerOverride?.addedOrigins ?? []), ...addedOrigins],
+  };
+  config = applyRuntimeServerOverride(config);
+
+  logDiagnostic('info', 'deeplink.connected', 'Switched server from connect deep link', {
+    from: previousAppUrl,
+    to: config.appUrl,
+    addedOrigins,
+    persisted: persist,
+  });
+  updateTrayMenu();
+  if (command.route) {
+    loadAppRoute(command.route, 'deep-link:connect');
+  } else {
+    reloadAppUrl('deep-link:connect');
+    mainWindow?.show();
+    mainWindow?.focus();
+  }
+  return true;
+}
+
+/**
+ * Apply the server chosen by a `connect` deep link on top of a loaded config.
+ */
+function applyRuntimeServerOverride(next: AppConfig): AppConfig {
+  if (!runtimeServerOverride) return next;
+  return {
+    ...next,
+    appUrl: runtimeServerOverride.appUrl,
+    trustedOrigins: [...new Set([...next.trustedOrigins, ...runtimeServerOverride.addedOrigins])],
+  };
+}
+
+/**
+ * Load an app-relative route in the main window, cancelling any pending
+ * splash navigation.
+ */
+function loadAppRoute(routePath: string, reason: string): void {
+  const windowRef = getMainWindow();
+  suppressSplashAutoNavigation = true;
+  cancelPendingSplashNavigation(reason);
+  isSplashActive = false;
+  const targetUrl = new URL(routePath, config.appUrl).toString();
+  windowRef.loadURL(targetUrl).catch((error) => {
+    console.error('Failed to open deep-link route:', error);
+    loadFallbackPage('Connection Failed', 'Unable to open deep-link route');
+  });
+  windowRef.show();
+  windowRef.focus();
+}
+
+// -----------------------------------------------------------------------------
+// Custom Deep Links
+// -----------------------------------------------------------------------------
+
+/**
+ * Forward a custom deep link to the web app, or buffer it until APP_URL has
+ * finished loading.
+ */
+function deliverCustomDeepLink(link: CustomDeepLink): void {
+  if (!isAppPageLoaded || !mainWindow) {
+    if (bufferedCustomDeepLinks.length >= MAX_BUFFERED_CUSTOM_DEEP_LINKS) {
+      const dropped = bufferedCustomDeepLinks.shift();
+      logDiagnostic('warn', 'deeplink.custom_dropped', 'Dropped buffered custom deep link (buffer full)', {
+        action: dropped?.action,
+      });
+    }
+    bufferedCustomDeepLinks.push(link);
+    logDiagnostic('debug', 'deeplink.custom_buffered', 'Buffered custom deep link until APP_URL loads', {
+      action: link.action,
+    });
+    return;
+  }
+
+  const pageUrl = mainWindow.webContents.getURL();
+  const capabilities = resolveCapabilities(pageUrl, config.capabilities);
+  if (!isTrustedOrigin(pageUrl, config) || !isChannelAllowed(IPC_CHANNELS.DEEP_LINKS_ACK, capabilities)) {
+    logDiagnostic('warn', 'deeplink.custom_not_delivered', 'Current page may not receive custom deep links', {
+      action: link.action,
+      pageUrl,
+    });
+    handleCustomDeepLinkUnhandled(link, 'not-delivered');
+    return;
+  }
+
+  const event: CustomDeepLinkEvent = {
+    id: crypto.randomUUID(),
+    action: link.action,
+    path: link.path,
+    params: { ...link.params },
+    scheme: link.scheme,
+  };
+  const timeoutId = setTimeout(() => {
+    awaitingDeepLinkAcks.delete(event.id);
+    handleCustomDeepLinkUnhandled(link, 'timeout');
+  }, DEEP_LINK_ACK_TIMEOUT_MS);
+  awaitingDeepLinkAcks.set(event.id, { link, timeoutId });
+  mainWindow.webContents.send(IPC_CHANNELS.DEEP_LINKS_RECEIVED, event);
+  logDiagnostic('info', 'deeplink.custom_delivered', 'Forwarded custom deep link to the web app', {
+    id: event.id,
+    action: link.action,
+  });
+}
+
+function flushBufferedCustomDeepLinks(): void {
+  for (const link of bufferedCustomDeepLinks.splice(0)) {
+    deliverCustomDeepLink(link);
+  }
+}
+
+function acknowledgeCustomDeepLink(id: string, handled: boolean): void {
+  const pending = awaitingDeepLinkAcks.get(id);
+  if (!pending) return;
+
+  clearTimeout(pending.timeoutId);
+  awaitingDeepLinkAcks.delete(id);
+  logDiagnostic('debug', 'deeplink.custom_ack', 'Web app acknowledged custom deep link', {
+    id,
+    action: pending.link.action,
+    handled,
+  });
+  if (!handled) {
+    handleCustomDeepLinkUnhandled(pending.link, 'declined');
+  }
+}
+
+/**
+ * Fall back to the action's `fallbackRoute` for links the web app did not handle.
+ */
+function handleCustomDeepLinkUnhandled(link: CustomDeepLink, reason: 'not-delivered' | 'timeout' | 'declined'): void {
+  const fallbackRoute = config.deepLinkActions[link.action]?.fallbackRoute;
+  logDiagnostic('warn', 'deeplink.custom_unhandled', 'Custom deep link was not handled by the web app', {
+    action: link.action,
+    reason,
+    fallbackRoute: fallbackRoute ?? null,
+  });
+  if (fallbackRoute) {
+    loadAppRoute(getCustomDeepLinkFallbackPath(link, fallbackRoute), `deep-link:${link.action}:fallback`);
+  }
+}
+
+/**
+ * Load APP_URL in the main window, cancelling any pending splash navigation.
+ */
+function reloadAppUrl(reason: string): void {
+  const windowRef = getMainWindow();
+  suppressSplashAutoNavigation = true;
+  cancelPendingSplashNavigation(reason);
+  isSplashActive = false;
+  windowRef.loadURL(config.appUrl).catch((error) => {
+    console.error(`Failed to load APP_URL (${reason}):`, error);
+    loadFallbackPage('Connection Failed', `Unable to connect to ${config.appUrl}`);
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Config Profiles
+// -----------------------------------------------------------------------------
+
+function getProfilesInfo(): ConfigProfilesInfo {
+  return {
+    active: config.activeProfile ?? null,
+    available: [...config.profiles],
+  };
+}
+
+/**
+ * Reload configuration with another profile and point the main window at it.
+ */
+function switchProfile(name: string, source: 'tray' | 'deep-link' | 'bridge'): void {
+  if (!isValidProfileName(name) || !config.profiles.includes(name)) {
+    throw new Error(`Unknown config profile: ${name}`);
+  }
+
+  const previous = config;
+  runtimeProfileOverride = name;
+  // A profile carries its own server.
+  runtimeServerOverride = null;
+  const { config: next, problems, provenance } = loadConfigReport({ profile: name, configPath: cliOptions.configPath });
+  configProblems = problems;
+  configProvenance = provenance;
+  logConfigProblems(problems);
+  // Profiles may carry their own schemes, which are re-registered below.
+  config = {
+    ...retainRestartRequiredFields(previous, next),
+    deepLinkScheme: next.deepLinkScheme,
+    deepLinkAliases: next.deepLinkAliases,
+  };
+  logDiagnostic('info', 'config.profile_switched', 'Switched config profile', {
+    from: previous.activeProfile ?? null,
+    to: name,
+    source,
+    appUrl: config.appUrl,
+  });
+
+  if (getDeepLinkSchemes(config).join(',') !== getDeepLinkSchemes(previous).join(',')) {
+    registerDeepLinkProtocol();
   }
 
-  writeSecureKeyIndex(new Set<string>());
-  logStorageEvent('info', 'Cleared secure storage values', {
-    count: Math.max(keychainDeleteCount, fallbackKeysToDelete.length, trackedKeys.length),
+  updateTrayMenu();
+  reloadAppUrl(`profile:${name}`);
+  mainWindow?.show();
+  mainWindow?.focus();
+}
+
+// -----------------------------------------------------------------------------
+// Config Hot Reload
+// -----------------------------------------------------------------------------
+
+function logConfigProblems(problems: ConfigProblem[]): void {
+  for (const problem of problems) {
+    logDiagnostic('warn', 'config.problem', `Config ${problem.source} value rejected for ${problem.field}`, problem);
+  }
+}
+
+/**
+ * Log the values locked by the machine-wide policy file, with their source.
+ */
+function logManagedSettings(): void {
+  const managed = getManagedSettings(configProvenance);
+  if (!managed.policyPath) return;
+
+  // Locked blocks such as deepLinkSigning can hold secrets.
+  const redacted = redactConfigSecrets(config);
+  const values: Record<string, unknown> = {};
+  for (const field of managed.lockedFields) {
+    values[field] = field
+      .split('.')
+      .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], redacted);
+  }
+  logDiagnostic('info', 'config.policy_applied', 'Applied machine-wide config policy', {
+    policyPath: managed.policyPath,
+    lockedFields: managed.lockedFields,
+    values,
   });
 }
 
-function registerDeepLinkProtocol(): void {
-  if (!config.enableDeepLinks) return;
+/**
+ * Log each in-memory config format migration step.
+ */
+function logConfigMigrations(migrations: ConfigFileMigration[]): void {
+  for (const migration of migrations) {
+    for (const step of migration.steps) {
+      logDiagnostic('info', 'config.migrated', `Migrated config file from v${step.from} to v${step.to}`, {
+        path: migration.path,
+        description: step.description,
+        changes: step.changes,
+      });
+    }
+  }
+}
+
+function startConfigWatcher(): void {
+  stopConfigWatcher?.();
+  stopConfigWatcher = null;
+  if (!config.configPath) return;
 
-  const registered = app.setAsDefaultProtocolClient(config.deepLinkScheme);
-  console.log(
-    registered
-      ? `Registered deep-link protocol: ${config.deepLinkScheme}://`
-      : `Protocol registration skipped/failed: ${config.deepLinkScheme}://`
+  // Parents pulled in through `extends` trigger a reload as well.
+  const stops = [config.configPath, ...configProvenance.extendedPaths].map((filePath) =>
+    watchConfigFile(filePath, reloadConfigFromDisk)
   );
+  stopConfigWatcher = () => stops.forEach((stop) => stop());
 }
 
-function handleDeepLink(rawUrl: string): void {
-  if (!config.enableDeepLinks) {
-    console.warn(`Deep link ignored because deep links are disabled: ${rawUrl}`);
-    logDiagnostic('warn', 'deeplink.disabled', 'Ignored deep link because feature is disabled', {
-      rawUrl,
+/**
+ * Re-read the config file and apply every field that can change live.
+ */
+function reloadConfigFromDisk(): void {
+  const previous = config;
+  const previousExtendedPaths = configProvenance.extendedPaths;
+  const report = loadConfigReport({
+    profile: runtimeProfileOverride,
+    configPath: cliOptions.configPath,
+  });
+  const { problems, provenance, migrations } = report;
+  const next = applyRuntimeServerOverride(report.config);
+  const diff = diffConfig(previous, next);
+  configProblems = problems;
+  configProvenance = provenance;
+  logConfigMigrations(migrations);
+  logConfigProblems(problems);
+  config = retainRestartRequiredFields(previous, next);
+
+  if (
+    next.configPath !== previous.configPath ||
+    provenance.extendedPaths.join('\n') !== previousExtendedPaths.join('\n')
+  ) {
+    startConfigWatcher();
+  }
+
+  if (diff.changed.length === 0 && diff.restartRequired.length === 0) {
+    logDiagnostic('debug', 'config.reload_unchanged', 'Config file changed but resolved config is identical', {
+      path: next.configPath,
     });
     return;
   }
 
-  const parsed = parseDeepLink(rawUrl, config.deepLinkScheme);
-  if (!parsed) {
-    console.warn(`Ignored invalid deep link: ${rawUrl}`);
-    logDiagnostic('warn', 'deeplink.invalid', 'Ignored invalid deep link', { rawUrl });
-    return;
+  logDiagnostic('info', 'config.reloaded', 'Reloaded config file', {
+    path: next.configPath,
+    changed: diff.changed,
+    restartRequired: diff.restartRequired,
+  });
+  console.log(`Config reloaded. Changed: ${diff.changed.join(', ') || 'none'}`);
+
+  if (diff.restartRequired.length > 0) {
+    console.warn(`Config changes require restart: ${diff.restartRequired.join(', ')}`);
+    logDiagnostic('warn', 'config.restart_required', 'Some config changes take effect after restart', {
+      fields: diff.restartRequired,
+    });
   }
 
-  logDiagnostic('info', 'deeplink.accepted', 'Handling deep link', { rawUrl, parsed });
+  if (diff.changed.includes('logLevel')) {
+    setDiagnosticsLevel(config.logLevel);
+  }
+  if (diff.changed.includes('splash.backgroundColor')) {
+    mainWindow?.setBackgroundColor(config.splash.backgroundColor);
+  }
 
-  const windowRef = getMainWindow();
+  updateTrayMenu();
 
-  switch (parsed.kind) {
-    case 'action':
-      if (parsed.action === 'quit') {
-        isQuitting = true;
-        app.quit();
-        return;
-      }
+  if (diff.changed.includes('appUrl')) {
+    reloadAppUrl('config-reload');
+  }
+}
 
-      if (parsed.action === 'reload') {
-        suppressSplashAutoNavigation = true;
-        cancelPendingSplashNavigation('deep-link:reload');
-        isSplashActive = false;
-        windowRef.loadURL(config.appUrl).catch((error) => {
-          console.error('Failed to reload APP_URL from deep link:', error);
-          loadFallbackPage('Connection Failed', `Unable to connect to ${config.appUrl}`);
-        });
-      } else if (parsed.action === 'settings') {
-        suppressSplashAutoNavigation = true;
-        cancelPendingSplashNavigation('deep-link:settings');
-        isSplashActive = false;
-        windowRef.loadURL(buildSettingsUrl()).catch((error) => {
-          console.error('Failed to open settings from deep link:', error);
-          loadFallbackPage('Connection Failed', 'Unable to open settings');
-        });
-      } else {
-        windowRef.show();
-        windowRef.focus();
-      }
-      return;
+// -----------------------------------------------------------------------------
+// Local Settings
+// -----------------------------------------------------------------------------
 
-    case 'route': {
-      suppressSplashAutoNavigation = true;
-      cancelPendingSplashNavigation('deep-link:route');
-      isSplashActive = false;
-      const targetUrl = new URL(parsed.path, config.appUrl).toString();
-      windowRef.loadURL(targetUrl).catch((error) => {
-        console.error('Failed to open deep-link route:', error);
-        loadFallbackPage('Connection Failed', 'Unable to open deep-link route');
-      });
-      windowRef.show();
-      windowRef.focus();
-      return;
+function openLocalSettings(source: 'tray' | 'deep-link' | 'bridge', section?: SettingsWindowSection): void {
+  logDiagnostic('info', 'settings.opened', 'Opened local settings window', { source, section });
+  openSettingsWindow(config.splash.backgroundColor, section);
+}
+
+/**
+ * User config file the settings window saves to.
+ */
+function getSettingsTargetPath(): string {
+  return path.resolve(config.configPath ?? cliOptions.configPath ?? (process.env.SWITCHBOARD_CONFIG || getDefaultConfigPath()));
+}
+
+/**
+ * Contents of the user config file, or an empty object when it does not
+ * exist. Throws when the file cannot be parsed.
+ */
+function readSettingsTargetFile(): unknown {
+  const targetPath = getSettingsTargetPath();
+  return fs.existsSync(targetPath) ? parseConfigText(fs.readFileSync(targetPath, 'utf-8'), targetPath) : {};
+}
+
+function getSettingsState(): SettingsState {
+  return {
+    values: getSettingsValues(config),
+    targetPath: getSettingsTargetPath(),
+    overrides: getSettingsOverrides(configProvenance),
+    lockedFields: getManagedSettings(configProvenance).lockedFields,
+  };
+}
+
+/**
+ * Validate and write settings to the user config file, optionally reloading
+ * the config and reconnecting the main window.
+ */
+function saveSettings(
+  values: unknown,
+  reconnect: boolean,
+  source: 'settings-window' | 'deep-link' = 'settings-window'
+): SettingsSaveResult {
+  const targetPath = getSettingsTargetPath();
+  const state = getSettingsState();
+  const { update, changedFields, problems } = buildSettingsUpdate(values, state.values, state.lockedFields);
+  const result: SettingsSaveResult = { saved: false, path: targetPath, changedFields, problems, shadowedFields: [] };
+  if (problems.length > 0) return result;
+
+  if (changedFields.length > 0) {
+    // Refuse to overwrite a file that cannot be read back, rather than losing its contents.
+    const existing = readSettingsTargetFile();
+    writeConfigFile(applySettingsUpdate(existing, update), targetPath, { backupPath: `${targetPath}.bak` });
+    result.shadowedFields = changedFields.filter((field) => field in state.overrides);
+    if (source === 'settings-window' && changedFields.includes('appUrl')) {
+      // An explicitly saved server replaces one picked by a connect link.
+      runtimeServerOverride = null;
+    }
+    logDiagnostic('info', 'settings.saved', 'Saved settings', {
+      source,
+      path: targetPath,
+      changedFields,
+      shadowedFields: result.shadowedFields,
+    });
+  }
+  result.saved = true;
+
+  if (reconnect) {
+    const previousAppUrl = config.appUrl;
+    reloadConfigFromDisk();
+    // reloadConfigFromDisk() already reconnects when appUrl changed.
+    if (config.appUrl === previousAppUrl) {
+      reloadAppUrl('settings:reconnect');
     }
+    mainWindow?.show();
+    mainWindow?.focus();
   }
+  return result;
 }
 
 // -----------------------------------------------------------------------------
@@ -1155,7 +2524,13 @@ function loadFallbackPage(title: string, message: string): void {
           window.location.replace(${appUrlJs});
         }
         function openSettings() {
-          window.location.replace(${settingsUrlJs});
+          if (window.electronBridge && window.electronBridge.settings && window.electronBridge.settings.open) {
+            window.electronBridge.settings.open().catch(function () {
+              window.location.replace(${settingsUrlJs});
+            });
+          } else {
+            window.location.replace(${settingsUrlJs});
+          }
         }
         function quitApp() {
           if (window.electronBridge && window.electronBridge.app && window.electronBridge.app.quit) {
@@ -1341,7 +2716,56 @@ function updateTrayMenu(): void {
         });
       },
     },
-    { type: 'separator' },
+    {
+      label: 'Connection Settings…',
+      click: () => openLocalSettings('tray'),
+    },
+    {
+      label: 'Back Up or Restore Storage…',
+      click: () => openLocalSettings('tray', 'backup'),
+    },
+    { type: 'separator' }
+  );
+
+  if (config.enableDeepLinks) {
+    menuItems.push(
+      {
+        label: 'Copy Link to Current View',
+        click: () => {
+          try {
+            copyCurrentViewLink('tray');
+          } catch (error) {
+            logDiagnostic('warn', 'deeplink.view_link_unavailable', 'No link available for current view', { error });
+          }
+        },
+      },
+      { label: 'Recent Links', submenu: getRecentDeepLinkMenuItems() },
+      { type: 'separator' }
+    );
+  }
+
+  if (config.profiles.length > 0) {
+    menuItems.push(
+      {
+        label: 'Profile',
+        submenu: config.profiles.map((name) => ({
+          label: name,
+          type: 'radio' as const,
+          checked: name === config.activeProfile,
+          click: () => {
+            if (name === config.activeProfile) return;
+            logDiagnostic('info', 'tray.profile_click', 'Profile selected from tray menu', {
+              profile: name,
+            });
+            switchProfile(name, 'tray');
+          },
+        })),
+      },
+      { type: 'separator' }
+    );
+  }
+
+  menuItems.push(
     {
       label: 'Quit',
       click: () => {
@@ -1455,8 +2879,32 @@ function setupIpcHandlers(): void {
     return false;
   };
 
+  // Register a handler behind the per-origin capability map. Sender trust is
+  // still checked by each handler via validateSender.
+  const handleIpc = <A extends unknown[]>(
+    channel: string,
+    listener: (event: Electron.IpcMainInvokeEvent, ...args: A) => unknown
+  ): void => {
+    ipcMain.handle(channel, (event, ...args: unknown[]) => {
+      const senderUrl = event.senderFrame?.url ?? '';
+      const capabilities = resolveCapabilities(senderUrl, config.capabilities);
+      if (!isChannelAllowed(channel, capabilities)) {
+        logDiagnostic('warn', 'ipc.capability_denied', 'Rejected IPC call not granted to sender origin', {
+          senderUrl,
+          channel,
+          namespace: getChannelNamespace(channel),
+          matchedEntries: capabilities.matchedEntries,
+        });
+        throw new Error(`IPC channel ${channel} is not granted to ${capabilities.origin}`);
+      }
+      // Argument types are asserted by each listener's signature and
+      // checked at runtime by its validators.
+      return listener(event, ...(args as A));
+    });
+  };
+
   // Notifications
-  ipcMain.handle(IPC_CHANNELS.NOTIFICATION_SHOW, async (event, title: string, body: string, options?: unknown) => {
+  handleIpc(IPC_CHANNELS.NOTIFICATION_SHOW, async (event, title: string, body: string, options?: unknown) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1485,7 +2933,7 @@ function setupIpcHandlers(): void {
     notification.show();
   });
 
-  ipcMain.handle(IPC_CHANNELS.NOTIFICATION_PERMISSION, async (event) => {
+  handleIpc(IPC_CHANNELS.NOTIFICATION_PERMISSION, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1493,7 +2941,7 @@ function setupIpcHandlers(): void {
   });
 
   // Tray
-  ipcMain.handle(IPC_CHANNELS.TRAY_SET_STATUS, async (event, status: TrayStatus) => {
+  handleIpc(IPC_CHANNELS.TRAY_SET_STATUS, async (event, status: TrayStatus) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1503,7 +2951,7 @@ function setupIpcHandlers(): void {
     updateTrayStatus(status);
   });
 
-  ipcMain.handle(IPC_CHANNELS.TRAY_SET_BADGE, async (event, count: number) => {
+  handleIpc(IPC_CHANNELS.TRAY_SET_BADGE, async (event, count: number) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1516,7 +2964,7 @@ function setupIpcHandlers(): void {
     // macOS v1: dock badge only.
   });
 
-  ipcMain.handle(IPC_CHANNELS.TRAY_SET_INFO, async (event, info: TrayInfo) => {
+  handleIpc(IPC_CHANNELS.TRAY_SET_INFO, async (event, info: TrayInfo) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1529,7 +2977,7 @@ function setupIpcHandlers(): void {
     });
   });
 
-  ipcMain.handle(IPC_CHANNELS.TRAY_GET_INFO, async (event) => {
+  handleIpc(IPC_CHANNELS.TRAY_GET_INFO, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1538,21 +2986,21 @@ function setupIpcHandlers(): void {
   });
 
   // App controls
-  ipcMain.handle(IPC_CHANNELS.APP_MINIMIZE, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_MINIMIZE, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     mainWindow?.minimize();
   });
 
-  ipcMain.handle(IPC_CHANNELS.APP_HIDE, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_HIDE, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     mainWindow?.hide();
   });
 
-  ipcMain.handle(IPC_CHANNELS.APP_SHOW, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_SHOW, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1560,21 +3008,21 @@ function setupIpcHandlers(): void {
     mainWindow?.focus();
   });
 
-  ipcMain.handle(IPC_CHANNELS.APP_GET_VERSION, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_GET_VERSION, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return app.getVersion();
   });
 
-  ipcMain.handle(IPC_CHANNELS.APP_IS_PACKAGED, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_IS_PACKAGED, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return app.isPackaged;
   });
 
-  ipcMain.handle(IPC_CHANNELS.APP_QUIT, async (event) => {
+  handleIpc(IPC_CHANNELS.APP_QUIT, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1582,7 +3030,14 @@ function setupIpcHandlers(): void {
     app.quit();
   });
 
-  ipcMain.handle(IPC_CHANNELS.STORAGE_GET, async (event, _key: string) => {
+  handleIpc(IPC_CHANNELS.APP_GET_CAPABILITIES, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return resolveCapabilities(event.senderFrame?.url ?? '', config.capabilities);
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_GET, async (event, _key: string) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1590,16 +3045,18 @@ function setupIpcHandlers(): void {
     return localGetValue(key);
   });
 
-  ipcMain.handle(IPC_CHANNELS.STORAGE_SET, async (event, _key: string, _value: string) => {
+  handleIpc(IPC_CHANNELS.STORAGE_SET, async (event, _key: string, _value: string, _options?: StorageSetOptions) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     const key = validateStorageKey(_key);
     const value = validateStorageValue(_value);
-    localSetValue(key, value);
+    const ttlMs = validateStorageTtl(_options);
+    assertLocalStorageQuota([[key, value]]);
+    localSetValue(key, value, ttlMs);
   });
 
-  ipcMain.handle(IPC_CHANNELS.STORAGE_REMOVE, async (event, _key: string) => {
+  handleIpc(IPC_CHANNELS.STORAGE_REMOVE, async (event, _key: string) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1607,61 +3064,130 @@ function setupIpcHandlers(): void {
     localDeleteValue(key);
   });
 
-  ipcMain.handle(IPC_CHANNELS.STORAGE_CLEAR, async (event) => {
+  handleIpc(IPC_CHANNELS.STORAGE_CLEAR, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     clearLocalValues();
   });
 
-  ipcMain.handle(IPC_CHANNELS.SECURE_STORAGE_GET, async (event, _key: string) => {
+  handleIpc(IPC_CHANNELS.STORAGE_KEYS, async (event, _prefix?: string) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    const prefix = validateStorageKeyPrefix(_prefix);
+    return listLocalKeys(prefix);
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_GET_MANY, async (event, _keys: string[]) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    const keys = validateStorageKeyList(_keys);
+    return Object.fromEntries(keys.map((key) => [key, localGetValue(key)]));
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_SET_MANY, async (event, _entries: Record<string, string>) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    const entries = validateStorageEntries(_entries);
+    assertLocalStorageQuota(entries);
+    localSetValues(entries);
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_GET_USAGE, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getLocalStorageUsage();
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_EXPORT_BACKUP, async (event, options?: unknown) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    const passphrase = validateBackupPassphrase(isRecord(options) ? options.passphrase : undefined);
+    const includeSecure = isRecord(options) && options.includeSecure === true;
+    if (includeSecure && !canSenderUseSecureStorage(event)) {
+      throw new Error('Secure storage is not available to this page');
+    }
+    return exportStorageBackup(BrowserWindow.fromWebContents(event.sender), { passphrase, includeSecure }, 'bridge');
+  });
+
+  handleIpc(IPC_CHANNELS.STORAGE_IMPORT_BACKUP, async (event, options?: unknown) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    const passphrase = validateBackupPassphrase(isRecord(options) ? options.passphrase : undefined);
+    const mode = validateBackupImportMode(isRecord(options) ? options.mode : undefined);
+    return importStorageBackup(
+      BrowserWindow.fromWebContents(event.sender),
+      { passphrase, mode },
+      canSenderUseSecureStorage(event),
+      'bridge'
+    );
+  });
+
+  handleIpc(IPC_CHANNELS.SECURE_STORAGE_GET, async (event, _key: string) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     const key = validateStorageKey(_key);
+    assertSecureKeyNotReserved(key);
     return await secureGetValue(key);
   });
 
-  ipcMain.handle(IPC_CHANNELS.SECURE_STORAGE_SET, async (event, _key: string, _value: string) => {
+  handleIpc(IPC_CHANNELS.SECURE_STORAGE_SET, async (event, _key: string, _value: string) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     const key = validateStorageKey(_key);
+    assertSecureKeyNotReserved(key);
     const value = validateStorageValue(_value);
+    await assertSecureStorageQuota(key, value);
     await secureSetValue(key, value);
   });
 
-  ipcMain.handle(IPC_CHANNELS.SECURE_STORAGE_REMOVE, async (event, _key: string) => {
+  handleIpc(IPC_CHANNELS.SECURE_STORAGE_REMOVE, async (event, _key: string) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     const key = validateStorageKey(_key);
+    assertSecureKeyNotReserved(key);
     await secureDeleteValue(key);
   });
 
-  ipcMain.handle(IPC_CHANNELS.SECURE_STORAGE_CLEAR, async (event) => {
+  handleIpc(IPC_CHANNELS.SECURE_STORAGE_CLEAR, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     await clearSecureValues();
   });
 
+  handleIpc(IPC_CHANNELS.SECURE_STORAGE_GET_USAGE, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getSecureStorageUsage();
+  });
+
   // Diagnostics
-  ipcMain.handle(IPC_CHANNELS.DIAGNOSTICS_COPY, async (event) => {
+  handleIpc(IPC_CHANNELS.DIAGNOSTICS_COPY, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return copyDiagnosticsToClipboard();
   });
 
-  ipcMain.handle(IPC_CHANNELS.DIAGNOSTICS_EXPORT, async (event) => {
+  handleIpc(IPC_CHANNELS.DIAGNOSTICS_EXPORT, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return exportDiagnosticsLog();
   });
 
-  ipcMain.handle(IPC_CHANNELS.DIAGNOSTICS_GET_LOG_PATH, async (event) => {
+  handleIpc(IPC_CHANNELS.DIAGNOSTICS_GET_LOG_PATH, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
@@ -1669,26 +3195,152 @@ function setupIpcHandlers(): void {
   });
 
   // Updates
-  ipcMain.handle(IPC_CHANNELS.UPDATES_GET_STATUS, async (event) => {
+  handleIpc(IPC_CHANNELS.UPDATES_GET_STATUS, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return getUpdateInfo();
   });
 
-  ipcMain.handle(IPC_CHANNELS.UPDATES_CHECK_NOW, async (event) => {
+  handleIpc(IPC_CHANNELS.UPDATES_CHECK_NOW, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     return await checkForUpdatesNow();
   });
 
-  ipcMain.handle(IPC_CHANNELS.UPDATES_INSTALL_NOW, async (event) => {
+  handleIpc(IPC_CHANNELS.UPDATES_INSTALL_NOW, async (event) => {
     if (!validateSender(event)) {
       throw new Error('IPC call from untrusted origin');
     }
     installUpdateNow();
   });
+
+  // Config
+  handleIpc(IPC_CHANNELS.CONFIG_GET_PROFILES, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getProfilesInfo();
+  });
+
+  handleIpc(IPC_CHANNELS.CONFIG_SWITCH_PROFILE, async (event, name: string) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    switchProfile(requireString(name, 'profile name'), 'bridge');
+  });
+
+  handleIpc(IPC_CHANNELS.CONFIG_GET_PROBLEMS, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return configProblems.map((problem) => ({ ...problem }));
+  });
+
+  handleIpc(IPC_CHANNELS.CONFIG_GET_PROVENANCE, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return configProvenance;
+  });
+
+  handleIpc(IPC_CHANNELS.CONFIG_GET_MANAGED_SETTINGS, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getManagedSettings(configProvenance);
+  });
+
+  // Deep links
+  handleIpc(IPC_CHANNELS.DEEP_LINKS_ACK, async (event, id: unknown, handled: unknown) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    if (event.sender !== mainWindow?.webContents) {
+      throw new Error('Deep links are only delivered to the main window');
+    }
+    if (typeof id !== 'string' || typeof handled !== 'boolean') {
+      throw new Error('Deep link acknowledgement is invalid');
+    }
+    acknowledgeCustomDeepLink(id, handled);
+  });
+
+  handleIpc(IPC_CHANNELS.DEEP_LINKS_GET_HISTORY, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getDeepLinkHistory();
+  });
+
+  handleIpc(IPC_CHANNELS.DEEP_LINKS_REPLAY, async (event, id: unknown) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new Error('Deep link history id is invalid');
+    }
+    replayDeepLink(id);
+  });
+
+  handleIpc(IPC_CHANNELS.DEEP_LINKS_GET_CURRENT_VIEW_LINK, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return getCurrentViewLink();
+  });
+
+  handleIpc(IPC_CHANNELS.DEEP_LINKS_COPY_CURRENT_VIEW_LINK, async (event) => {
+    if (!validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    return copyCurrentViewLink('bridge');
+  });
+
+  // Local settings window
+  handleIpc(IPC_CHANNELS.SETTINGS_OPEN, async (event) => {
+    if (!isSettingsWindowSender(event) && !validateSender(event)) {
+      throw new Error('IPC call from untrusted origin');
+    }
+    openLocalSettings('bridge');
+  });
+
+  handleIpc(IPC_CHANNELS.SETTINGS_GET_STATE, async (event) => {
+    if (!isSettingsWindowSender(event)) {
+      throw new Error('Settings are only available to the local settings window');
+    }
+    return getSettingsState();
+  });
+
+  handleIpc(IPC_CHANNELS.SETTINGS_SAVE, async (event, values: unknown, options?: unknown) => {
+    if (!isSettingsWindowSender(event)) {
+      throw new Error('Settings are only available to the local settings window');
+    }
+    const reconnect = isRecord(options) && options.reconnect === true;
+    return saveSettings(values, reconnect);
+  });
+
+  handleIpc(IPC_CHANNELS.SETTINGS_EXPORT_BACKUP, async (event, options?: unknown) => {
+    if (!isSettingsWindowSender(event)) {
+      throw new Error('Settings are only available to the local settings window');
+    }
+    const passphrase = validateBackupPassphrase(isRecord(options) ? options.passphrase : undefined);
+    const includeSecure = isRecord(options) && options.includeSecure === true;
+    return exportStorageBackup(
+      BrowserWindow.fromWebContents(event.sender),
+      { passphrase, includeSecure },
+      'settings-window'
+    );
+  });
+
+  handleIpc(IPC_CHANNELS.SETTINGS_IMPORT_BACKUP, async (event, options?: unknown) => {
+    if (!isSettingsWindowSender(event)) {
+      throw new Error('Settings are only available to the local settings window');
+    }
+    const passphrase = validateBackupPassphrase(isRecord(options) ? options.passphrase : undefined);
+    const mode = validateBackupImportMode(isRecord(options) ? options.mode : undefined);
+    return importStorageBackup(BrowserWindow.fromWebContents(event.sender), { passphrase, mode }, true, 'settings-window');
+  });
 }
 
 // -----------------------------------------------------------------------------
@@ -1701,8 +3353,31 @@ app.whenReady().then(() => {
     appUrl: config.appUrl,
     trustedOrigins: config.trustedOrigins,
     deepLinkScheme: config.deepLinkScheme,
+    activeProfile: config.activeProfile ?? null,
     autoUpdateEnabled: config.enableAutoUpdate,
+    configProblemCount: configProblems.length,
+  });
+  logConfigMigrations(initialConfigReport.migrations);
+  logConfigProblems(configProblems);
+  logDiagnostic('info', 'config.provenance', 'Resolved config sources', {
+    loadedPath: configProvenance.loadedPath,
+    explicitPathVariable: configProvenance.explicitPathVariable,
+    fields: configProvenance.fields,
+    policyPath: configProvenance.policyPath,
   });
+  logManagedSettings();
+  registerDiagnosticsExportSection('config.provenance', () => configProvenance);
+  registerDiagnosticsExportSection('config.problems', () => configProblems);
+  registerDiagnosticsExportSection('deepLinks.history', () => getDeepLinkHistory());
+  registerDiagnosticsExportSection('deepLinks.dropped', () => droppedDeepLinkTotals);
+  registerDiagnosticsExportSection('storage.usage', () => ({
+    storage: getLocalStorageUsage(),
+    // Secure values are only measured once the bridge has needed their sizes;
+    // until then the section lists the key count without `bytes`.
+    secureStorage: secureEntrySizes
+      ? { ...projectStorageUsage(secureEntrySizes), ...config.storageQuotas.secureStorage }
+      : { keyCount: getTrackedSecureKeys().length, ...config.storageQuotas.secureStorage },
+  }));
 
   console.log('Switchboard starting...');
   console.log(`App URL: ${config.appUrl}`);
@@ -1713,19 +3388,19 @@ app.whenReady().then(() => {
   createWindow();
   createTray();
   setupAutoUpdater();
+  startConfigWatcher();
+  startStorageSweep();
 
   // Handle deep link from initial process args (fallback for non-macOS dispatch paths).
-  const startupDeepLink = extractDeepLinkFromArgv(process.argv, config.deepLinkScheme);
+  // Together with deep links queued before app readiness, this is one batch
+  // so the user is asked at most once.
+  const startupDeepLink = extractDeepLinkFromArgv(process.argv, getDeepLinkSchemes(config));
+  const startupBatch = pendingDeepLinks.splice(0);
   if (startupDeepLink) {
-    handleDeepLink(startupDeepLink);
+    startupBatch.unshift({ rawUrl: startupDeepLink, source: 'argv' });
   }
-
-  // Replay deep links queued before app readiness.
-  while (pendingDeepLinks.length > 0) {
-    const deepLinkUrl = pendingDeepLinks.shift();
-    if (deepLinkUrl) {
-      handleDeepLink(deepLinkUrl);
-    }
+  if (startupBatch.length > 0) {
+    handleDeepLinkBatch(startupBatch);
   }
 
   app.on('activate', () => {
@@ -1754,6 +3429,12 @@ app.on('window-all-closed', () => {
 app.on('before-quit', () => {
   logDiagnostic('info', 'app.before_quit', 'Application is quitting');
   isQuitting = true;
+  stopConfigWatcher?.();
+  stopConfigWatcher = null;
+  if (storageSweepIntervalId) {
+    clearInterval(storageSweepIntervalId);
+    storageSweepIntervalId = null;
+  }
 });
 
 // Security: Disable navigation to file:// URLs
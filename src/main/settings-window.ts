@@ -0,0 +1,83 @@
+/**
+ * Local Settings Window
+ *
+ * A settings page bundled with the app so the connection can be fixed while
+ * APP_URL is unreachable. The page is a data URL using the regular preload
+ * bridge; only the settings window may read or save settings. It also hosts
+ * the storage backup export and import.
+ */
+
+import * as path from 'path';
+import { BrowserWindow } from 'electron';
+import { SETTINGS_HTML } from '../shared/settings-page';
+
+let settingsWindow: BrowserWindow | null = null;
+
+/** Part of the settings page that can be opened directly */
+export type SettingsWindowSection = 'backup';
+
+/**
+ * Check whether an IPC call came from the local settings window
+ */
+export function isSettingsWindowSender(event: Electron.IpcMainInvokeEvent): boolean {
+  if (!settingsWindow || settingsWindow.isDestroyed()) return false;
+  return (
+    event.sender === settingsWindow.webContents &&
+    (event.senderFrame?.url ?? '').startsWith('data:text/html')
+  );
+}
+
+function showSection(windowRef: BrowserWindow, section: SettingsWindowSection): void {
+  windowRef.webContents
+    .executeJavaScript(`document.getElementById(${JSON.stringify(section)}).scrollIntoView();`)
+    .catch(() => undefined);
+}
+
+/**
+ * Open (or focus) the local settings window
+ *
+ * @param backgroundColor Window background color
+ * @param section Section to scroll to
+ */
+export function openSettingsWindow(backgroundColor: string, section?: SettingsWindowSection): BrowserWindow {
+  if (settingsWindow && !settingsWindow.isDestroyed()) {
+    settingsWindow.show();
+    settingsWindow.focus();
+    if (section) showSection(settingsWindow, section);
+    return settingsWindow;
+  }
+
+  const windowRef = new BrowserWindow({
+    width: 560,
+    height: 760,
+    minWidth: 420,
+    minHeight: 480,
+    backgroundColor,
+    title: 'Connection Settings',
+    webPreferences: {
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true,
+      preload: path.join(__dirname, '../preload/index.js'),
+      webSecurity: true,
+      webviewTag: false,
+      plugins: false,
+      experimentalFeatures: false,
+    },
+  });
+  settingsWindow = windowRef;
+
+  // The page is fully static; nothing may navigate away from it or open windows.
+  windowRef.webContents.on('will-navigate', (event) => event.preventDefault());
+  windowRef.webContents.setWindowOpenHandler(() => ({ action: 'deny' }));
+  windowRef.on('closed', () => {
+    if (settingsWindow === windowRef) settingsWindow = null;
+  });
+
+  windowRef.setMenuBarVisibility(false);
+  if (section) {
+    windowRef.webContents.once('did-finish-load', () => showSection(windowRef, section));
+  }
+  windowRef.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(SETTINGS_HTML)}`);
+  return windowRef;
+}
@@ -15,6 +15,25 @@ import {
   ConnectedAppInfo,
   AppHealthStatus,
   UpdateInfo,
+  ConfigProfilesInfo,
+  ConfigProblem,
+  ConfigProvenance,
+  CapabilityInfo,
+  ManagedSettingsInfo,
+  SettingsState,
+  SettingsSaveResult,
+  CustomDeepLinkEvent,
+  DeepLinkHistoryEntry,
+  StorageChangeEvent,
+  StorageSetOptions,
+  StorageUsage,
+  StorageBackupExportOptions,
+  StorageBackupExportResult,
+  StorageBackupImportOptions,
+  StorageBackupImportSummary,
+  DEEP_LINK_ACK_TIMEOUT_MS,
+  STORAGE_MAX_BATCH_ENTRIES,
+  STORAGE_MAX_BATCH_CHARS,
 } from '../shared/types';
 
 /**
@@ -160,6 +179,122 @@ function validateStorageValue(value: unknown): string {
   return valueStr;
 }
 
+/**
+ * Validate storage set options
+ */
+function validateStorageSetOptions(options: unknown): StorageSetOptions | undefined {
+  if (options === undefined) return undefined;
+  if (!options || typeof options !== 'object') {
+    throw new Error('Invalid storage options: expected object');
+  }
+  const { ttlMs } = options as StorageSetOptions;
+  if (ttlMs === undefined) return undefined;
+  if (typeof ttlMs !== 'number' || !Number.isSafeInteger(ttlMs) || ttlMs <= 0) {
+    throw new Error('Invalid ttlMs: expected positive integer');
+  }
+  return { ttlMs };
+}
+
+/**
+ * Validate storage backup export options
+ */
+function validateBackupExportOptions(options: unknown): StorageBackupExportOptions {
+  if (!options || typeof options !== 'object') {
+    throw new Error('Invalid backup options: expected object');
+  }
+  const { passphrase, includeSecure } = options as StorageBackupExportOptions;
+  if (typeof passphrase !== 'string' || passphrase.length < 8 || passphrase.length > 1024) {
+    throw new Error('Invalid passphrase: expected 8..1024 characters');
+  }
+  return { passphrase, includeSecure: includeSecure === true };
+}
+
+/**
+ * Validate storage backup import options
+ */
+function validateBackupImportOptions(options: unknown): StorageBackupImportOptions {
+  if (!options || typeof options !== 'object') {
+    throw new Error('Invalid backup options: expected object');
+  }
+  const { passphrase, mode } = options as StorageBackupImportOptions;
+  if (typeof passphrase !== 'string' || passphrase.length < 8 || passphrase.length > 1024) {
+    throw new Error('Invalid passphrase: expected 8..1024 characters');
+  }
+  if (mode !== undefined && mode !== 'merge' && mode !== 'replace') {
+    throw new Error('Invalid import mode: expected merge or replace');
+  }
+  return { passphrase, mode: mode ?? 'merge' };
+}
+
+/**
+ * Validate a list of storage keys for a batch call
+ */
+function validateStorageKeyList(keys: unknown): string[] {
+  if (!Array.isArray(keys)) {
+    throw new Error('Invalid keys: expected array');
+  }
+  if (keys.length > STORAGE_MAX_BATCH_ENTRIES) {
+    throw new Error(`Too many storage keys (max ${STORAGE_MAX_BATCH_ENTRIES})`);
+  }
+  return keys.map(validateStorageKey);
+}
+
+/**
+ * Validate storage entries for a batch call
+ */
+function validateStorageEntries(entries: unknown): Record<string, string> {
+  if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+    throw new Error('Invalid entries: expected object');
+  }
+  const pairs = Object.entries(entries);
+  if (pairs.length > STORAGE_MAX_BATCH_ENTRIES) {
+    throw new Error(`Too many storage entries (max ${STORAGE_MAX_BATCH_ENTRIES})`);
+  }
+  const result: Record<string, string> = {};
+  let size = 0;
+  for (const [key, value] of pairs) {
+    const validKey = validateStorageKey(key);
+    const validValue = validateStorageValue(value);
+    size += validKey.length + validValue.length;
+    result[validKey] = validValue;
+  }
+  if (size > STORAGE_MAX_BATCH_CHARS) {
+    throw new Error('Storage batch too large');
+  }
+  return result;
+}
+
+type DeepLinkCallback = (link: CustomDeepLinkEvent) => boolean | void | Promise<boolean | void>;
+
+const deepLinkCallbacks = new Set<DeepLinkCallback>();
+// Links received before the web app subscribed, kept until the main process
+// stops waiting for an acknowledgement.
+let undeliveredDeepLinks: Array<{ link: CustomDeepLinkEvent; receivedAt: number }> = [];
+
+/**
+ * Run every registered callback for a custom deep link and acknowledge it.
+ * The link counts as handled unless every callback returned false or threw.
+ */
+async function dispatchDeepLink(link: CustomDeepLinkEvent): Promise<void> {
+  let handled = false;
+  for (const callback of [...deepLinkCallbacks]) {
+    try {
+      if ((await callback(link)) !== false) handled = true;
+    } catch (error) {
+      console.error('Deep link callback failed:', error);
+    }
+  }
+  await ipcRenderer.invoke(IPC_CHANNELS.DEEP_LINKS_ACK, link.id, handled).catch(() => undefined);
+}
+
+ipcRenderer.on(IPC_CHANNELS.DEEP_LINKS_RECEIVED, (_event, link: CustomDeepLinkEvent) => {
+  if (deepLinkCallbacks.size === 0) {
+    undeliveredDeepLinks.push({ link, receivedAt: Date.now() });
+    return;
+  }
+  void dispatchDeepLink(link);
+});
+
 /**
  * The bridge API exposed to the renderer
  */
@@ -236,6 +371,10 @@ const electronBridge: ElectronBridge = {
     async quit(): Promise<void> {
       await ipcRenderer.invoke(IPC_CHANNELS.APP_QUIT);
     },
+
+    async getCapabilities(): Promise<CapabilityInfo> {
+      return ipcRenderer.invoke(IPC_CHANNELS.APP_GET_CAPABILITIES);
+    },
   },
 
   storage: {
@@ -244,10 +383,11 @@ const electronBridge: ElectronBridge = {
       return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_GET, validKey);
     },
 
-    async set(key: string, value: string): Promise<void> {
+    async set(key: string, value: string, options?: StorageSetOptions): Promise<void> {
       const validKey = validateStorageKey(key);
       const validValue = validateStorageValue(value);
-      await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_SET, validKey, validValue);
+      const validOptions = validateStorageSetOptions(options);
+      await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_SET, validKey, validValue, validOptions);
     },
 
     async remove(key: string): Promise<void> {
@@ -258,6 +398,65 @@ const electronBridge: ElectronBridge = {
     async clear(): Promise<void> {
       await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_CLEAR);
     },
+
+    async keys(prefix?: string): Promise<string[]> {
+      const validPrefix = prefix === undefined || prefix === '' ? undefined : validateStorageKey(prefix);
+      return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_KEYS, validPrefix);
+    },
+
+    async getMany(keys: string[]): Promise<Record<string, string | null>> {
+      const validKeys = validateStorageKeyList(keys);
+      return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_GET_MANY, validKeys);
+    },
+
+    async setMany(entries: Record<string, string>): Promise<void> {
+      const validEntries = validateStorageEntries(entries);
+      await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_SET_MANY, validEntries);
+    },
+
+    async getJSON<T = unknown>(key: string): Promise<T | null> {
+      const validKey = validateStorageKey(key);
+      const raw: string | null = await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_GET, validKey);
+      if (raw === null) return null;
+      try {
+        return JSON.parse(raw) as T;
+      } catch {
+        throw new Error(`Stored value for "${validKey}" is not valid JSON`);
+      }
+    },
+
+    async setJSON(key: string, value: unknown, options?: StorageSetOptions): Promise<void> {
+      const validKey = validateStorageKey(key);
+      const serialized = JSON.stringify(value);
+      if (serialized === undefined) {
+        throw new Error('Invalid value: not JSON-serializable');
+      }
+      const validValue = validateStorageValue(serialized);
+      const validOptions = validateStorageSetOptions(options);
+      await ipcRenderer.invoke(IPC_CHANNELS.STORAGE_SET, validKey, validValue, validOptions);
+    },
+
+    onChange(callback: (change: StorageChangeEvent) => void): () => void {
+      const handler = (_event: Electron.IpcRendererEvent, change: StorageChangeEvent) => {
+        callback(change);
+      };
+      ipcRenderer.on(IPC_CHANNELS.STORAGE_CHANGED, handler);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.STORAGE_CHANGED, handler);
+      };
+    },
+
+    async getUsage(): Promise<StorageUsage> {
+      return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_GET_USAGE);
+    },
+
+    async exportBackup(options: StorageBackupExportOptions): Promise<StorageBackupExportResult | null> {
+      return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_EXPORT_BACKUP, validateBackupExportOptions(options));
+    },
+
+    async importBackup(options: StorageBackupImportOptions): Promise<StorageBackupImportSummary | null> {
+      return ipcRenderer.invoke(IPC_CHANNELS.STORAGE_IMPORT_BACKUP, validateBackupImportOptions(options));
+    },
   },
 
   secureStorage: {
@@ -280,6 +479,20 @@ const electronBridge: ElectronBridge = {
     async clear(): Promise<void> {
       await ipcRenderer.invoke(IPC_CHANNELS.SECURE_STORAGE_CLEAR);
     },
+
+    onChange(callback: (change: StorageChangeEvent) => void): () => void {
+      const handler = (_event: Electron.IpcRendererEvent, change: StorageChangeEvent) => {
+        callback(change);
+      };
+      ipcRenderer.on(IPC_CHANNELS.SECURE_STORAGE_CHANGED, handler);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.SECURE_STORAGE_CHANGED, handler);
+      };
+    },
+
+    async getUsage(): Promise<StorageUsage> {
+      return ipcRenderer.invoke(IPC_CHANNELS.SECURE_STORAGE_GET_USAGE);
+    },
   },
 
   diagnostics: {
@@ -319,6 +532,92 @@ const electronBridge: ElectronBridge = {
       };
     },
   },
+
+  config: {
+    async getProfiles(): Promise<ConfigProfilesInfo> {
+      return ipcRenderer.invoke(IPC_CHANNELS.CONFIG_GET_PROFILES);
+    },
+
+    async switchProfile(name: string): Promise<void> {
+      const validName = validateString(name, 'name');
+      await ipcRenderer.invoke(IPC_CHANNELS.CONFIG_SWITCH_PROFILE, validName);
+    },
+
+    async getProblems(): Promise<ConfigProblem[]> {
+      return ipcRenderer.invoke(IPC_CHANNELS.CONFIG_GET_PROBLEMS);
+    },
+
+    async getProvenance(): Promise<ConfigProvenance> {
+      return ipcRenderer.invoke(IPC_CHANNELS.CONFIG_GET_PROVENANCE);
+    },
+
+    async getManagedSettings(): Promise<ManagedSettingsInfo> {
+      return ipcRenderer.invoke(IPC_CHANNELS.CONFIG_GET_MANAGED_SETTINGS);
+    },
+  },
+
+  settings: {
+    async open(): Promise<void> {
+      await ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_OPEN);
+    },
+
+    async getState(): Promise<SettingsState> {
+      return ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET_STATE);
+    },
+
+    async save(values: unknown, options?: { reconnect?: boolean }): Promise<SettingsSaveResult> {
+      if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+        throw new Error('values must be an object');
+      }
+      const reconnect = options?.reconnect === true;
+      return ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_SAVE, values, { reconnect });
+    },
+
+    async exportBackup(options: StorageBackupExportOptions): Promise<StorageBackupExportResult | null> {
+      return ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_EXPORT_BACKUP, validateBackupExportOptions(options));
+    },
+
+    async importBackup(options: StorageBackupImportOptions): Promise<StorageBackupImportSummary | null> {
+      return ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_IMPORT_BACKUP, validateBackupImportOptions(options));
+    },
+  },
+
+  deepLinks: {
+    onReceive(callback: DeepLinkCallback): () => void {
+      if (typeof callback !== 'function') {
+        throw new Error('callback must be a function');
+      }
+      deepLinkCallbacks.add(callback);
+
+      const cutoff = Date.now() - DEEP_LINK_ACK_TIMEOUT_MS;
+      const pending = undeliveredDeepLinks.filter((entry) => entry.receivedAt >= cutoff);
+      undeliveredDeepLinks = [];
+      for (const { link } of pending) {
+        void dispatchDeepLink(link);
+      }
+
+      return () => {
+        deepLinkCallbacks.delete(callback);
+      };
+    },
+
+    async getHistory(): Promise<DeepLinkHistoryEntry[]> {
+      return ipcRenderer.invoke(IPC_CHANNELS.DEEP_LINKS_GET_HISTORY);
+    },
+
+    async replay(id: string): Promise<void> {
+      validateString(id, 'id');
+      return ipcRenderer.invoke(IPC_CHANNELS.DEEP_LINKS_REPLAY, id);
+    },
+
+    async getCurrentViewLink(): Promise<string> {
+      return ipcRenderer.invoke(IPC_CHANNELS.DEEP_LINKS_GET_CURRENT_VIEW_LINK);
+    },
+
+    async copyCurrentViewLink(): Promise<string> {
+      return ipcRenderer.invoke(IPC_CHANNELS.DEEP_LINKS_COPY_CURRENT_VIEW_LINK);
+    },
+  },
 };
 
 // Expose the bridge API to the renderer
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { IPC_CHANNELS } from './types';
+import {
+  BRIDGE_NAMESPACES,
+  getChannelNamespace,
+  isCapabilityName,
+  isChannelAllowed,
+  resolveCapabilities,
+} from './capabilities';
+
+const capabilities = {
+  'https://tools.switchboard.internal': ['notifications', 'tray'],
+  'https://*.switchboard.internal': ['notifications'],
+  'https://*.preview.internal': ['app:getVersion'],
+  'https://*.ops.internal': ['*'],
+};
+
+test('getChannelNamespace maps IPC channel prefixes to bridge namespaces', () => {
+  assert.equal(getChannelNamespace(IPC_CHANNELS.NOTIFICATION_SHOW), 'notifications');
+  assert.equal(getChannelNamespace(IPC_CHANNELS.SECURE_STORAGE_GET), 'secureStorage');
+  assert.equal(getChannelNamespace(IPC_CHANNELS.APP_QUIT), 'app');
+  assert.equal(getChannelNamespace('unknown:thing'), null);
+  for (const channel of Object.values(IPC_CHANNELS)) {
+    assert.ok(getChannelNamespace(channel), `channel should map to a namespace: ${channel}`);
+  }
+});
+
+test('isCapabilityName accepts namespaces, channels and the wildcard only', () => {
+  assert.equal(isCapabilityName('notifications'), true);
+  assert.equal(isCapabilityName('app:quit'), true);
+  assert.equal(isCapabilityName('*'), true);
+  assert.equal(isCapabilityName('notification'), false);
+  assert.equal(isCapabilityName('app:teleport'), false);
+});
+
+test('origins without a capability entry keep full access', () => {
+  const info = resolveCapabilities('https://switchboard.example.com/app', capabilities);
+  assert.equal(info.restricted, false);
+  assert.deepEqual(info.namespaces, [...BRIDGE_NAMESPACES]);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.SECURE_STORAGE_GET, info), true);
+
+  const fallback = resolveCapabilities('data:text/html;charset=utf-8,fallback', capabilities);
+  assert.equal(fallback.origin, null);
+  assert.equal(fallback.restricted, false);
+});
+
+test('exact origin entries win over matching patterns', () => {
+  const info = resolveCapabilities('https://tools.switchboard.internal/page', capabilities);
+  assert.equal(info.restricted, true);
+  assert.deepEqual(info.matchedEntries, ['https://tools.switchboard.internal']);
+  assert.deepEqual(info.namespaces, ['notifications', 'tray']);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.TRAY_SET_BADGE, info), true);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.SECURE_STORAGE_GET, info), false);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.APP_QUIT, info), false);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.DIAGNOSTICS_EXPORT, info), false);
+});
+
+test('pattern entries grant namespaces and individual channels', () => {
+  const info = resolveCapabilities('https://pr-1.switchboard.internal', capabilities);
+  assert.deepEqual(info.matchedEntries, ['https://*.switchboard.internal']);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.NOTIFICATION_SHOW, info), true);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.TRAY_SET_STATUS, info), false);
+
+  const preview = resolveCapabilities('https://pr-2.preview.internal', capabilities);
+  assert.deepEqual(preview.namespaces, []);
+  assert.deepEqual(preview.channels, ['app:getVersion']);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.APP_GET_VERSION, preview), true);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.APP_QUIT, preview), false);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.APP_GET_CAPABILITIES, preview), true);
+});
+
+test('wildcard capability entries grant full access', () => {
+  const info = resolveCapabilities('https://grafana.ops.internal', capabilities);
+  assert.equal(info.restricted, false);
+  assert.deepEqual(info.matchedEntries, ['https://*.ops.internal']);
+  assert.equal(isChannelAllowed(IPC_CHANNELS.APP_QUIT, info), true);
+});
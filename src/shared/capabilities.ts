@@ -0,0 +1,126 @@
+/**
+ * Per-origin bridge capabilities
+ *
+ * `capabilities` in config maps an origin (or origin pattern) to the bridge
+ * namespaces and/or individual IPC channels it may call:
+ *
+ *   "capabilities": {
+ *     "https://tools.switchboard.internal": ["notifications", "tray"],
+ *     "https://*.preview.switchboard.internal": ["notifications", "app:getVersion"]
+ *   }
+ *
+ * Origins without an entry keep full access. An exact origin entry wins over
+ * pattern entries; otherwise all matching pattern entries are combined.
+ */
+
+import { IPC_CHANNELS } from './types';
+import type { BridgeNamespace, CapabilityInfo } from './types';
+import { isOriginPattern, matchesOriginPattern, parseOriginPattern } from './origin-patterns';
+
+export const BRIDGE_NAMESPACES: readonly BridgeNamespace[] = [
+  'notifications',
+  'tray',
+  'app',
+  'storage',
+  'secureStorage',
+  'diagnostics',
+  'updates',
+  'config',
+  'settings',
+  'deepLinks',
+];
+
+/** Capability entry granting every namespace */
+export const ALL_CAPABILITIES = '*';
+
+/** Channels any trusted sender may call regardless of its capability entry */
+const ALWAYS_ALLOWED_CHANNELS: ReadonlySet<string> = new Set([IPC_CHANNELS.APP_GET_CAPABILITIES]);
+
+/** IPC channel prefixes that differ from their bridge namespace name */
+const CHANNEL_PREFIX_NAMESPACES: Record<string, BridgeNamespace> = {
+  notification: 'notifications',
+};
+
+const KNOWN_CHANNELS: ReadonlySet<string> = new Set(Object.values(IPC_CHANNELS));
+
+function isBridgeNamespace(value: string): value is BridgeNamespace {
+  return (BRIDGE_NAMESPACES as readonly string[]).includes(value);
+}
+
+/**
+ * Bridge namespace an IPC channel belongs to (e.g. `notification:show` -> `notifications`).
+ */
+export function getChannelNamespace(channel: string): BridgeNamespace | null {
+  const prefix = channel.split(':')[0];
+  const namespace = CHANNEL_PREFIX_NAMESPACES[prefix] ?? prefix;
+  return isBridgeNamespace(namespace) ? namespace : null;
+}
+
+/**
+ * True for `*`, a bridge namespace name, or a known IPC channel name.
+ */
+export function isCapabilityName(value: string): boolean {
+  return value === ALL_CAPABILITIES || isBridgeNamespace(value) || KNOWN_CHANNELS.has(value);
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    const origin = new URL(url).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve the capabilities granted to a sender URL.
+ */
+export function resolveCapabilities(
+  url: string,
+  capabilities: Record<string, string[]>
+): CapabilityInfo {
+  const origin = getOrigin(url);
+  const unrestricted: CapabilityInfo = {
+    origin,
+    restricted: false,
+    matchedEntries: [],
+    namespaces: [...BRIDGE_NAMESPACES],
+    channels: [],
+  };
+  if (!origin) return unrestricted;
+
+  let matchedEntries: string[];
+  if (Object.prototype.hasOwnProperty.call(capabilities, origin)) {
+    matchedEntries = [origin];
+  } else {
+    matchedEntries = Object.keys(capabilities).filter((key) => {
+      if (!isOriginPattern(key)) return false;
+      const pattern = parseOriginPattern(key);
+      return pattern !== null && matchesOriginPattern(url, pattern);
+    });
+  }
+  if (matchedEntries.length === 0) return unrestricted;
+
+  const granted = new Set(matchedEntries.flatMap((key) => capabilities[key]));
+  if (granted.has(ALL_CAPABILITIES)) {
+    return { ...unrestricted, matchedEntries };
+  }
+
+  return {
+    origin,
+    restricted: true,
+    matchedEntries,
+    namespaces: BRIDGE_NAMESPACES.filter((namespace) => granted.has(namespace)),
+    channels: [...granted].filter((entry) => KNOWN_CHANNELS.has(entry)).sort(),
+  };
+}
+
+/**
+ * Check whether resolved capabilities allow calling an IPC channel.
+ */
+export function isChannelAllowed(channel: string, info: CapabilityInfo): boolean {
+  if (!info.restricted || ALWAYS_ALLOWED_CHANNELS.has(channel)) return true;
+  if (info.channels.includes(channel)) return true;
+  const namespace = getChannelNamespace(channel);
+  return namespace !== null && info.namespaces.includes(namespace);
+}
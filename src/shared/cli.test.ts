@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCliArgs } from './cli';
+
+test('parseCliArgs starts the app normally without config commands', () => {
+  const options = parseCliArgs(['.', '--enable-logging', 'switchboard://open']);
+  assert.equal(options.command, null);
+  assert.equal(options.configPath, undefined);
+  assert.deepEqual(options.errors, []);
+});
+
+test('parseCliArgs reads --config in both separated and inline forms', () => {
+  assert.equal(parseCliArgs(['--config', '/etc/sb.json']).configPath, '/etc/sb.json');
+  assert.equal(parseCliArgs(['--config=/etc/sb.json']).configPath, '/etc/sb.json');
+  assert.deepEqual(parseCliArgs(['--config']).errors, ['--config requires a path']);
+  assert.deepEqual(parseCliArgs(['--config=']).errors, ['--config requires a path']);
+  assert.deepEqual(parseCliArgs(['--config', '--print-config']).errors, ['--config requires a path']);
+});
+
+test('parseCliArgs parses config commands and their arguments', () => {
+  const print = parseCliArgs(['--print-config', '--config', './sb.json']);
+  assert.equal(print.command, 'print-config');
+  assert.equal(print.configPath, './sb.json');
+
+  const validate = parseCliArgs(['--validate-config', './sb.json']);
+  assert.equal(validate.command, 'validate-config');
+  assert.equal(validate.validatePath, './sb.json');
+  assert.deepEqual(parseCliArgs(['--validate-config']).errors, ['--validate-config requires a path']);
+
+  const init = parseCliArgs(['--init-config', '--force']);
+  assert.equal(init.command, 'init-config');
+  assert.equal(init.force, true);
+});
+
+test('parseCliArgs rejects conflicting commands', () => {
+  const options = parseCliArgs(['--print-config', '--init-config']);
+  assert.deepEqual(options.errors, ['--print-config and --init-config cannot be combined']);
+});
+
+test('parseCliArgs accepts an optional path for --migrate-config', () => {
+  assert.equal(parseCliArgs(['--migrate-config']).command, 'migrate-config');
+  assert.equal(parseCliArgs(['--migrate-config']).migratePath, undefined);
+  assert.equal(parseCliArgs(['--migrate-config', './old.json']).migratePath, './old.json');
+  assert.equal(parseCliArgs(['--migrate-config=./old.json']).migratePath, './old.json');
+
+  const withConfig = parseCliArgs(['--migrate-config', '--config', './old.json']);
+  assert.equal(withConfig.migratePath, undefined);
+  assert.equal(withConfig.configPath, './old.json');
+});
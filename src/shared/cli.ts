@@ -0,0 +1,102 @@
+/**
+ * Command-line flags for config tooling
+ *
+ * These commands run before the single-instance lock and exit without
+ * creating a window, so they can be used from provisioning scripts:
+ *
+ *   switchboard --print-config [--config <path>]
+ *   switchboard --validate-config <path>
+ *   switchboard --init-config [--config <path>] [--force]
+ *   switchboard --migrate-config [<path>]
+ */
+
+export type CliCommand = 'print-config' | 'validate-config' | 'init-config' | 'migrate-config';
+
+export interface CliOptions {
+  /** Command to run and exit (null: start the app normally) */
+  command: CliCommand | null;
+  /** Explicit config file path (`--config`) */
+  configPath?: string;
+  /** File to check with `--validate-config` */
+  validatePath?: string;
+  /** File to upgrade with `--migrate-config` (default: the discovered config file) */
+  migratePath?: string;
+  /** Overwrite an existing file with `--init-config` */
+  force: boolean;
+  /** Usage errors (missing values, conflicting commands) */
+  errors: string[];
+}
+
+/** Exit codes used by CLI commands */
+export const CLI_EXIT_CODES = {
+  ok: 0,
+  problems: 1,
+  usage: 2,
+} as const;
+
+export const CLI_USAGE = `Usage:
+  switchboard --print-config [--config <path>]   Print the resolved config with sources
+  switchboard --validate-config <path>           Validate a config file (exit 1 on problems)
+  switchboard --init-config [--force]            Write a commented starter config file
+  switchboard --migrate-config [<path>]          Upgrade a config file to the current configVersion (keeps a backup)
+  switchboard --config <path>                    Start with this config file (overrides SWITCHBOARD_CONFIG)`;
+
+const COMMAND_FLAGS: Record<string, CliCommand> = {
+  '--print-config': 'print-config',
+  '--validate-config': 'validate-config',
+  '--init-config': 'init-config',
+  '--migrate-config': 'migrate-config',
+};
+
+/**
+ * Parse process arguments. Unknown arguments (Chromium switches, deep links,
+ * the app path in development) are ignored.
+ */
+export function parseCliArgs(argv: readonly string[]): CliOptions {
+  const options: CliOptions = { command: null, force: false, errors: [] };
+
+  const readValue = (flag: string, inline: string | undefined, index: number): [string | undefined, number] => {
+    const value = inline ?? argv[index + 1];
+    if (value === undefined || value.length === 0 || (inline === undefined && value.startsWith('--'))) {
+      options.errors.push(`${flag} requires a path`);
+      return [undefined, index];
+    }
+    return [value, inline === undefined ? index + 1 : index];
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    const separator = arg.indexOf('=');
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const inline = separator === -1 ? undefined : arg.slice(separator + 1);
+
+    const command = COMMAND_FLAGS[flag];
+    if (command) {
+      if (options.command && options.command !== command) {
+        options.errors.push(`--${options.command} and ${flag} cannot be combined`);
+      }
+      options.command = command;
+      if (command === 'validate-config') {
+        [options.validatePath, i] = readValue(flag, inline, i);
+      } else if (command === 'migrate-config') {
+        // Optional path: only consume the next argument when it is not a flag.
+        const next = argv[i + 1];
+        if (inline) {
+          options.migratePath = inline;
+        } else if (inline === undefined && next !== undefined && !next.startsWith('-')) {
+          options.migratePath = next;
+          i += 1;
+        }
+      }
+      continue;
+    }
+
+    if (flag === '--config') {
+      [options.configPath, i] = readValue(flag, inline, i);
+    } else if (flag === '--force') {
+      options.force = true;
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,72 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { ConfigProblem } from './types';
+import { interpolateConfigValues } from './config-interpolation';
+
+const env = {
+  SWITCHBOARD_HOST: 'switchboard.internal',
+  SWITCHBOARD_ORIGIN: 'https://switchboard.internal',
+  EMPTY: '',
+};
+
+test('interpolateConfigValues substitutes variables in nested string values', () => {
+  const problems: ConfigProblem[] = [];
+  const result = interpolateConfigValues(
+    {
+      appUrl: 'https://${SWITCHBOARD_HOST}/app',
+      trustedOrigins: ['${SWITCHBOARD_ORIGIN}'],
+      updateCheckInterval: 6,
+      splash: { appName: '${SWITCHBOARD_HOST}' },
+      '${SWITCHBOARD_HOST}': 'keys are not interpolated',
+    },
+    env,
+    problems
+  );
+
+  assert.deepEqual(result, {
+    appUrl: 'https://switchboard.internal/app',
+    trustedOrigins: ['https://switchboard.internal'],
+    updateCheckInterval: 6,
+    splash: { appName: 'switchboard.internal' },
+    '${SWITCHBOARD_HOST}': 'keys are not interpolated',
+  });
+  assert.deepEqual(problems, []);
+});
+
+test('interpolateConfigValues applies defaults for unset or empty variables', () => {
+  const problems: ConfigProblem[] = [];
+  assert.equal(interpolateConfigValues('${MISSING:-info}', env, problems), 'info');
+  assert.equal(interpolateConfigValues('${EMPTY:-fallback}', env, problems), 'fallback');
+  assert.equal(interpolateConfigValues('${SWITCHBOARD_HOST:-other}', env, problems), 'switchboard.internal');
+  assert.equal(interpolateConfigValues('${MISSING:-}', env, problems), '');
+  assert.equal(interpolateConfigValues('${EMPTY}', env, problems), '');
+  assert.deepEqual(problems, []);
+});
+
+test('interpolateConfigValues supports $${ escapes', () => {
+  const problems: ConfigProblem[] = [];
+  assert.equal(interpolateConfigValues('Costs $${PRICE} and $5', env, problems), 'Costs ${PRICE} and $5');
+  assert.equal(
+    interpolateConfigValues('$${SWITCHBOARD_HOST} is ${SWITCHBOARD_HOST}', env, problems),
+    '${SWITCHBOARD_HOST} is switchboard.internal'
+  );
+  assert.deepEqual(problems, []);
+});
+
+test('interpolateConfigValues reports unset variables and invalid references', () => {
+  const problems: ConfigProblem[] = [];
+  const result = interpolateConfigValues(
+    { appUrl: 'https://${MISSING_HOST}', trustedOrigins: ['${1BAD}'] },
+    env,
+    problems
+  );
+
+  assert.deepEqual(result, { appUrl: 'https://', trustedOrigins: ['${1BAD}'] });
+  assert.deepEqual(
+    problems.map((problem) => [problem.field, problem.problem]),
+    [
+      ['appUrl', 'Environment variable MISSING_HOST is not set; substituted an empty string'],
+      ['trustedOrigins', 'Invalid variable reference ${1BAD} (kept as-is)'],
+    ]
+  );
+});
@@ -0,0 +1,79 @@
+/**
+ * Environment variable interpolation for config file values
+ *
+ * String values (not keys) may reference environment variables:
+ *
+ *   "appUrl": "https://${SWITCHBOARD_HOST}"
+ *   "logLevel": "${SWITCHBOARD_LOG_LEVEL:-info}"
+ *   "loadingText": "Costs $${PRICE}"          -> literal "Costs ${PRICE}"
+ *
+ * `${VAR:-default}` uses the default when VAR is unset or empty. An unset
+ * variable without a default is replaced with an empty string and reported,
+ * so the validation that follows rejects the value and falls back as usual.
+ */
+
+import type { ConfigProblem } from './types';
+import { addConfigProblem, isPlainObject } from './config-validation';
+
+const REFERENCE_PATTERN = /\$\$\{|\$\{([^}]*)\}/g;
+const EXPRESSION_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)(?::-([\s\S]*))?$/;
+
+function interpolateString(
+  value: string,
+  field: string,
+  env: Record<string, string | undefined>,
+  problems: ConfigProblem[]
+): string {
+  return value.replace(REFERENCE_PATTERN, (match, expression: string | undefined) => {
+    if (expression === undefined) return '${';
+
+    const parsed = EXPRESSION_PATTERN.exec(expression);
+    if (!parsed) {
+      addConfigProblem(problems, field, 'file', `Invalid variable reference ${match} (kept as-is)`);
+      return match;
+    }
+
+    const [, variable, defaultValue] = parsed;
+    const envValue = env[variable];
+    if (defaultValue !== undefined) {
+      return envValue ? envValue : defaultValue;
+    }
+    if (envValue === undefined) {
+      addConfigProblem(
+        problems,
+        field,
+        'file',
+        `Environment variable ${variable} is not set; substituted an empty string`
+      );
+      return '';
+    }
+    return envValue;
+  });
+}
+
+/**
+ * Substitute `${VAR}` references in every string value of a parsed config.
+ * Array elements report problems under the array's field.
+ */
+export function interpolateConfigValues(
+  raw: unknown,
+  env: Record<string, string | undefined>,
+  problems: ConfigProblem[],
+  field = ''
+): unknown {
+  if (typeof raw === 'string') {
+    return interpolateString(raw, field || '(root)', env, problems);
+  }
+  if (Array.isArray(raw)) {
+    return raw.map((entry) => interpolateConfigValues(entry, env, problems, field));
+  }
+  if (isPlainObject(raw)) {
+    return Object.fromEntries(
+      Object.entries(raw).map(([key, value]) => [
+        key,
+        interpolateConfigValues(value, env, problems, field ? `${field}.${key}` : key),
+      ])
+    );
+  }
+  return raw;
+}
@@ -0,0 +1,75 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { CURRENT_CONFIG_VERSION, getConfigVersion, migrateConfig } from './config-migrations';
+
+test('getConfigVersion treats missing or invalid versions as 1', () => {
+  assert.equal(getConfigVersion({}), 1);
+  assert.equal(getConfigVersion({ configVersion: '2' }), 1);
+  assert.equal(getConfigVersion({ configVersion: 0 }), 1);
+  assert.equal(getConfigVersion({ configVersion: 2 }), 2);
+});
+
+test('migrateConfig renames v1 keys and nests flat splash keys', () => {
+  const result = migrateConfig({
+    url: 'https://switchboard.internal',
+    allowedOrigins: ['https://switchboard.internal'],
+    autoUpdate: false,
+    logLevel: 'warn',
+    splashLogoPath: './logo.png',
+    splashBackgroundColor: '#000000',
+  });
+
+  assert.equal(result.fromVersion, 1);
+  assert.equal(result.toVersion, CURRENT_CONFIG_VERSION);
+  assert.deepEqual(result.config, {
+    configVersion: 2,
+    appUrl: 'https://switchboard.internal',
+    trustedOrigins: ['https://switchboard.internal'],
+    enableAutoUpdate: false,
+    logLevel: 'warn',
+    splash: { logoPath: './logo.png', backgroundColor: '#000000' },
+  });
+  assert.equal(Object.keys(result.config)[0], 'configVersion');
+  assert.deepEqual(result.steps.map((step) => [step.from, step.to]), [[1, 2]]);
+  assert.deepEqual(result.steps[0].changes, [
+    'url -> appUrl',
+    'allowedOrigins -> trustedOrigins',
+    'autoUpdate -> enableAutoUpdate',
+    'splashLogoPath -> splash.logoPath',
+    'splashBackgroundColor -> splash.backgroundColor',
+  ]);
+});
+
+test('migrateConfig keeps current keys over legacy ones', () => {
+  const result = migrateConfig({
+    url: 'https://legacy.example.com',
+    appUrl: 'https://current.example.com',
+    splashAppName: 'Legacy',
+    splash: { appName: 'Current' },
+  });
+
+  assert.deepEqual(result.config, {
+    configVersion: 2,
+    appUrl: 'https://current.example.com',
+    splash: { appName: 'Current' },
+  });
+  assert.deepEqual(result.steps[0].changes, [
+    'url dropped (appUrl already set)',
+    'splashAppName -> splash.appName',
+  ]);
+});
+
+test('migrateConfig leaves current and newer files untouched', () => {
+  const current = { configVersion: 2, appUrl: 'https://a.example.com' };
+  assert.deepEqual(migrateConfig(current), {
+    config: current,
+    fromVersion: 2,
+    toVersion: 2,
+    steps: [],
+  });
+
+  const newer = { configVersion: 9, futureField: true };
+  const result = migrateConfig(newer);
+  assert.equal(result.config, newer);
+  assert.deepEqual(result.steps, []);
+});
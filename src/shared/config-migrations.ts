@@ -0,0 +1,124 @@
+/**
+ * Config file format migrations.
+ *
+ * Every config file carries a `configVersion` (files without one are version 1).
+ * Migrations are pure functions over the parsed file so they can be tested
+ * outside the Electron runtime; the loader applies them in memory and
+ * `--migrate-config` writes the result back.
+ */
+
+import { isPlainObject } from './config-validation';
+
+export const CURRENT_CONFIG_VERSION = 2;
+
+/** A single applied migration step */
+export interface ConfigMigrationStep {
+  from: number;
+  to: number;
+  description: string;
+  /** Human-readable list of changes (e.g. `splashLogoPath -> splash.logoPath`) */
+  changes: string[];
+}
+
+export interface ConfigMigrationResult {
+  config: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  steps: ConfigMigrationStep[];
+}
+
+interface ConfigMigration {
+  from: number;
+  description: string;
+  migrate(config: Record<string, unknown>, changes: string[]): Record<string, unknown>;
+}
+
+/** Version 1 top-level keys renamed in version 2 */
+const V1_RENAMED_KEYS: Record<string, string> = {
+  url: 'appUrl',
+  allowedOrigins: 'trustedOrigins',
+  autoUpdate: 'enableAutoUpdate',
+  notifications: 'enableNotifications',
+  deepLinks: 'enableDeepLinks',
+  deepLinkProtocol: 'deepLinkScheme',
+};
+
+const FLAT_SPLASH_KEY = /^splash([A-Z]\w*)$/;
+
+function migrateV1ToV2(config: Record<string, unknown>, changes: string[]): Record<string, unknown> {
+  const migrated: Record<string, unknown> = {};
+  const flatSplash: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    const renamed = V1_RENAMED_KEYS[key];
+    const flatSplashMatch = FLAT_SPLASH_KEY.exec(key);
+
+    if (renamed) {
+      if (Object.prototype.hasOwnProperty.call(config, renamed)) {
+        changes.push(`${key} dropped (${renamed} already set)`);
+      } else {
+        migrated[renamed] = value;
+        changes.push(`${key} -> ${renamed}`);
+      }
+    } else if (flatSplashMatch) {
+      const splashKey = flatSplashMatch[1][0].toLowerCase() + flatSplashMatch[1].slice(1);
+      flatSplash[splashKey] = value;
+      changes.push(`${key} -> splash.${splashKey}`);
+    } else {
+      migrated[key] = value;
+    }
+  }
+
+  if (Object.keys(flatSplash).length > 0) {
+    // Values already in the nested block win over the flat keys.
+    const nested = isPlainObject(config.splash) ? config.splash : {};
+    migrated.splash = { ...flatSplash, ...nested };
+  }
+
+  return migrated;
+}
+
+const MIGRATIONS: readonly ConfigMigration[] = [
+  {
+    from: 1,
+    description: 'Rename legacy keys and nest flat splash* keys under splash',
+    migrate: migrateV1ToV2,
+  },
+];
+
+/**
+ * Read `configVersion` from a parsed file (1 when missing or not a positive integer).
+ */
+export function getConfigVersion(config: Record<string, unknown>): number {
+  const version = config.configVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : 1;
+}
+
+/**
+ * Upgrade a parsed config file to CURRENT_CONFIG_VERSION.
+ *
+ * Files from a newer version are returned unchanged with no steps.
+ */
+export function migrateConfig(config: Record<string, unknown>): ConfigMigrationResult {
+  const fromVersion = getConfigVersion(config);
+  let current = config;
+  let version = fromVersion;
+  const steps: ConfigMigrationStep[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.from !== version) continue;
+    const changes: string[] = [];
+    current = migration.migrate(current, changes);
+    version = migration.from + 1;
+    steps.push({ from: migration.from, to: version, description: migration.description, changes });
+  }
+
+  if (steps.length > 0) {
+    // Keep configVersion as the first key in written-back files.
+    const rest = { ...current };
+    delete rest.configVersion;
+    current = { configVersion: version, ...rest };
+  }
+
+  return { config: current, fromVersion, toVersion: version, steps };
+}
@@ -0,0 +1,939 @@
+/**
+ * Config validation
+ *
+ * Strict validation for config file values and environment overrides.
+ * Invalid values are dropped (or clamped/normalized) and recorded as
+ * `ConfigProblem` entries so `loadConfig()` can fall back to the next layer
+ * and report why a setting did not take effect.
+ *
+ * These helpers are intentionally pure so they can be tested outside the
+ * Electron runtime.
+ */
+
+import type {
+  ConfigFile,
+  ConfigProfile,
+  DeepLinkActionConfig,
+  DeepLinkConfirmationConfig,
+  DeepLinkSigningConfig,
+  SplashConfig,
+  StorageQuotaConfig,
+} from './config';
+import type { ConfigProblem, ConfigProblemSource } from './types';
+import { formatOriginPattern, isOriginPattern, parseOriginPattern } from './origin-patterns';
+import { isCapabilityName } from './capabilities';
+import { DEEP_LINK_SIGNING_TARGETS, isCustomDeepLinkActionName, parseEd25519PublicKey } from './deeplink';
+import { isValidStorageKey } from './storage';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export const UPDATE_CHANNELS = ['stable', 'beta', 'alpha'] as const;
+
+/** Update check interval bounds in hours (one week max) */
+export const UPDATE_CHECK_INTERVAL_MIN = 0;
+export const UPDATE_CHECK_INTERVAL_MAX = 168;
+
+/** Storage quota bounds (per namespace) */
+export const STORAGE_QUOTA_BYTES_MIN = 1024;
+export const STORAGE_QUOTA_BYTES_MAX = 1024 * 1024 * 1024;
+export const STORAGE_QUOTA_KEYS_MIN = 1;
+export const STORAGE_QUOTA_KEYS_MAX = 100_000;
+
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/;
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]{0,63}$/;
+const RESERVED_SCHEMES = new Set(['http', 'https', 'file', 'data', 'javascript', 'about', 'blob']);
+/** App-relative path prefix without query or hash */
+const ROUTE_PREFIX_PATTERN = /^\/[^?#\s]*$/;
+
+/** Fields whose values must never be echoed back in problems or output */
+export const SECRET_CONFIG_FIELDS = ['deepLinkSigning.hmacSecrets'] as const;
+
+/** Signed deep link lifetime bounds in seconds (one day max) */
+export const DEEP_LINK_MAX_LIFETIME_MIN = 10;
+export const DEEP_LINK_MAX_LIFETIME_MAX = 86400;
+
+/** Environment variables mapped onto config file fields */
+export const ENV_VARIABLES = {
+  APP_URL: 'appUrl',
+  TRUSTED_ORIGINS: 'trustedOrigins',
+  ALLOW_HTTP_LOCALHOST: 'allowHttpLocalhost',
+  TRUST_LOCALHOST_WILDCARD: 'trustLocalhostWildcard',
+  START_IN_TRAY: 'startInTray',
+  MINIMIZE_TO_TRAY: 'minimizeToTray',
+  ENABLE_NOTIFICATIONS: 'enableNotifications',
+  LOG_LEVEL: 'logLevel',
+  ENABLE_AUTO_UPDATE: 'enableAutoUpdate',
+  UPDATE_CHANNEL: 'updateChannel',
+  UPDATE_CHECK_INTERVAL: 'updateCheckInterval',
+  ENABLE_DEEP_LINKS: 'enableDeepLinks',
+  DEEP_LINK_SCHEME: 'deepLinkScheme',
+  SPLASH_ENABLED: 'splash.enabled',
+  SWITCHBOARD_PROFILE: 'activeProfile',
+} as const;
+
+/**
+ * Get the environment variable that overrides a config field.
+ */
+export function getEnvVariableForField(field: string): string | undefined {
+  for (const [variable, mappedField] of Object.entries(ENV_VARIABLES)) {
+    if (mappedField === field) return variable;
+  }
+  return undefined;
+}
+
+// -----------------------------------------------------------------------------
+// Problem Reporting
+// -----------------------------------------------------------------------------
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function addConfigProblem(
+  problems: ConfigProblem[],
+  field: string,
+  source: ConfigProblemSource,
+  problem: string
+): void {
+  problems.push({ field, source, problem, fallbackUsed: null });
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value.length > 80 ? `${value.slice(0, 80)}…` : value);
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Field Validators
+// -----------------------------------------------------------------------------
+
+interface FieldContext {
+  field: string;
+  source: ConfigProblemSource;
+  problems: ConfigProblem[];
+}
+
+function reject(ctx: FieldContext, problem: string): undefined {
+  addConfigProblem(ctx.problems, ctx.field, ctx.source, problem);
+  return undefined;
+}
+
+function readBoolean(value: unknown, ctx: FieldContext): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  return reject(ctx, `Expected a boolean, got ${describeValue(value)}`);
+}
+
+function readEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  ctx: FieldContext
+): T | undefined {
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) {
+    return value as T;
+  }
+  return reject(ctx, `Expected one of ${allowed.join('|')}, got ${describeValue(value)}`);
+}
+
+function readString(value: unknown, maxLength: number, ctx: FieldContext): string | undefined {
+  if (typeof value !== 'string') {
+    return reject(ctx, `Expected a string, got ${describeValue(value)}`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length === 0 || trimmed.length > maxLength) {
+    return reject(ctx, `Expected 1..${maxLength} characters`);
+  }
+  return trimmed;
+}
+
+function readPath(value: unknown, ctx: FieldContext): string | undefined {
+  if (typeof value !== 'string') {
+    return reject(ctx, `Expected a file path string, got ${describeValue(value)}`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length === 0 || trimmed.length > 1024 || trimmed.includes('\0')) {
+    return reject(ctx, 'Invalid file path');
+  }
+  return trimmed;
+}
+
+/**
+ * Read a number, rounding when `integer` is set. Out-of-range values are
+ * clamped when `clamp` is set, otherwise rejected.
+ */
+function readNumber(
+  value: unknown,
+  ctx: FieldContext,
+  bounds: { min: number; max: number; integer?: boolean; clamp?: boolean }
+): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return reject(ctx, `Expected a finite number, got ${describeValue(value)}`);
+  }
+
+  const normalized = bounds.integer ? Math.round(value) : value;
+  if (normalized >= bounds.min && normalized <= bounds.max) {
+    return normalized;
+  }
+
+  if (!bounds.clamp) {
+    return reject(ctx, `Expected a number between ${bounds.min} and ${bounds.max}, got ${value}`);
+  }
+
+  const clamped = Math.min(bounds.max, Math.max(bounds.min, normalized));
+  addConfigProblem(
+    ctx.problems,
+    ctx.field,
+    ctx.source,
+    `Value ${value} is outside ${bounds.min}..${bounds.max}; clamped to ${clamped}`
+  );
+  return clamped;
+}
+
+function readAppUrl(value: unknown, ctx: FieldContext): string | undefined {
+  if (typeof value !== 'string') {
+    return reject(ctx, `Expected a URL string, got ${describeValue(value)}`);
+  }
+
+  try {
+    const parsed = new URL(value);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return reject(ctx, `Unsupported protocol ${parsed.protocol} in ${describeValue(value)}`);
+    }
+    return parsed.toString();
+  } catch {
+    return reject(ctx, `Invalid URL ${describeValue(value)}`);
+  }
+}
+
+/**
+ * Normalize a trusted origin entry to `scheme://host[:port]`.
+ */
+export function normalizeOrigin(value: string): { origin: string | null; problem?: string } {
+  let parsed: URL;
+  try {
+    parsed = new URL(value.trim());
+  } catch {
+    return { origin: null, problem: `Invalid origin ${describeValue(value)}` };
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { origin: null, problem: `Unsupported protocol ${parsed.protocol} in origin ${describeValue(value)}` };
+  }
+  if (parsed.username || parsed.password) {
+    return { origin: null, problem: `Origin ${describeValue(value)} must not contain credentials` };
+  }
+  if (parsed.pathname !== '/' || parsed.search || parsed.hash) {
+    return {
+      origin: parsed.origin,
+      problem: `Origin ${describeValue(value)} contains a path, query or hash; normalized to ${parsed.origin}`,
+    };
+  }
+
+  return { origin: parsed.origin };
+}
+
+/**
+ * Normalize a trusted origin pattern (wildcard subdomain, port range, any scheme).
+ */
+function normalizePattern(value: string): { origin: string | null; problem?: string } {
+  const pattern = parseOriginPattern(value);
+  if (!pattern) {
+    return { origin: null, problem: `Invalid origin pattern ${describeValue(value)}` };
+  }
+  return { origin: formatOriginPattern(pattern) };
+}
+
+function readOrigins(value: unknown, ctx: FieldContext): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return reject(ctx, `Expected an array of origins, got ${describeValue(value)}`);
+  }
+
+  const origins: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'string') {
+      addConfigProblem(ctx.problems, ctx.field, ctx.source, `Ignored non-string origin ${describeValue(entry)}`);
+      continue;
+    }
+
+    const normalized = isOriginPattern(entry) ? normalizePattern(entry) : normalizeOrigin(entry);
+    if (normalized.problem) {
+      addConfigProblem(ctx.problems, ctx.field, ctx.source, normalized.problem);
+    }
+    if (normalized.origin && !origins.includes(normalized.origin)) {
+      origins.push(normalized.origin);
+    }
+  }
+
+  if (value.length > 0 && origins.length === 0) {
+    return reject(ctx, 'No valid origins remain after validation');
+  }
+
+  return origins;
+}
+
+function readCapabilities(value: unknown, ctx: FieldContext): Record<string, string[]> | undefined {
+  if (!isPlainObject(value)) {
+    return reject(ctx, `Expected an object keyed by origin, got ${describeValue(value)}`);
+  }
+
+  const capabilities: Record<string, string[]> = {};
+  for (const [key, grants] of Object.entries(value)) {
+    const field = `${ctx.field}.${key}`;
+    const normalized = isOriginPattern(key) ? normalizePattern(key) : normalizeOrigin(key);
+    if (normalized.problem) {
+      addConfigProblem(ctx.problems, field, ctx.source, normalized.problem);
+    }
+    if (!normalized.origin) continue;
+
+    if (!Array.isArray(grants)) {
+      addConfigProblem(
+        ctx.problems,
+        field,
+        ctx.source,
+        `Expected an array of namespaces or channels, got ${describeValue(grants)} (entry ignored)`
+      );
+      continue;
+    }
+
+    // Unknown names are dropped rather than rejecting the entry, so a typo
+    // narrows access instead of widening it.
+    const granted: string[] = [];
+    for (const grant of grants) {
+      if (typeof grant !== 'string' || !isCapabilityName(grant)) {
+        addConfigProblem(ctx.problems, field, ctx.source, `Unknown capability ${describeValue(grant)} (ignored)`);
+        continue;
+      }
+      if (!granted.includes(grant)) granted.push(grant);
+    }
+    capabilities[normalized.origin] = [...(capabilities[normalized.origin] ?? []), ...granted];
+  }
+
+  return capabilities;
+}
+
+function readScheme(value: unknown, ctx: FieldContext): string | undefined {
+  if (typeof value !== 'string') {
+    return reject(ctx, `Expected a scheme string, got ${describeValue(value)}`);
+  }
+
+  const scheme = value.trim().replace(/:(\/\/)?$/, '').toLowerCase();
+  if (!SCHEME_PATTERN.test(scheme)) {
+    return reject(ctx, `Invalid URL scheme ${describeValue(value)}`);
+  }
+  if (RESERVED_SCHEMES.has(scheme)) {
+    return reject(ctx, `Scheme ${describeValue(scheme)} is reserved`);
+  }
+  return scheme;
+}
+
+function readSchemeList(value: unknown, ctx: FieldContext): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return reject(ctx, `Expected an array of schemes, got ${describeValue(value)}`);
+  }
+
+  const schemes: string[] = [];
+  for (const entry of value) {
+    const scheme = readScheme(entry, ctx);
+    if (scheme !== undefined && !schemes.includes(scheme)) schemes.push(scheme);
+  }
+  return schemes;
+}
+
+function readProfileName(value: unknown, ctx: FieldContext): string | undefined {
+  if (typeof value === 'string' && PROFILE_NAME_PATTERN.test(value)) {
+    return value;
+  }
+  return reject(ctx, `Invalid profile name ${describeValue(value)}`);
+}
+
+function isValidSplashColor(value: string): boolean {
+  const trimmed = value.trim();
+  if (trimmed.length === 0 || trimmed.length > 64) return false;
+
+  const hexColor = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+  const rgbLikeColor = /^(?:rgb|rgba|hsl|hsla)\(\s*[0-9.%\s,]+\)$/i;
+  const namedColor = /^[a-zA-Z]+$/;
+
+  return hexColor.test(trimmed) || rgbLikeColor.test(trimmed) || namedColor.test(trimmed);
+}
+
+function readColor(value: unknown, ctx: FieldContext): string | undefined {
+  if (typeof value !== 'string') {
+    return reject(ctx, `Expected a color string, got ${describeValue(value)}`);
+  }
+  if (!isValidSplashColor(value)) {
+    return reject(ctx, `Invalid color ${describeValue(value)}`);
+  }
+  return value.trim();
+}
+
+// -----------------------------------------------------------------------------
+// Config File Validation
+// -----------------------------------------------------------------------------
+
+function setIfDefined<T extends object, K extends keyof T>(target: T, key: K, value: T[K] | undefined): void {
+  if (value !== undefined) {
+    target[key] = value;
+  }
+}
+
+/**
+ * Validate a `splash` block. Only valid fields are returned.
+ */
+export function validateSplashConfig(
+  raw: unknown,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[],
+  fieldPrefix = 'splash'
+): Partial<SplashConfig> {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, fieldPrefix, source, `Expected an object, got ${describeValue(raw)}`);
+    return {};
+  }
+
+  const splash: Partial<SplashConfig> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: `${fieldPrefix}.${key}`, source, problems };
+    switch (key) {
+      case 'enabled':
+      case 'showVersion':
+        setIfDefined(splash, key, readBoolean(value, ctx));
+        break;
+      case 'customHtmlPath':
+      case 'logoPath':
+        setIfDefined(splash, key, readPath(value, ctx));
+        break;
+      case 'logoWidth':
+      case 'logoHeight':
+        setIfDefined(splash, key, readNumber(value, ctx, { min: 16, max: 512, integer: true }));
+        break;
+      case 'backgroundColor':
+      case 'textColor':
+      case 'textColorSecondary':
+      case 'accentColor':
+        setIfDefined(splash, key, readColor(value, ctx));
+        break;
+      case 'loadingText':
+        setIfDefined(splash, key, readString(value, 120, ctx));
+        break;
+      case 'appName':
+        setIfDefined(splash, key, readString(value, 64, ctx));
+        break;
+      default:
+        addConfigProblem(problems, ctx.field, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return splash;
+}
+
+function readStringList(
+  value: unknown,
+  ctx: FieldContext,
+  isValid: (entry: string) => boolean,
+  describeEntry: (entry: unknown) => string
+): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return reject(ctx, `Expected an array, got ${describeValue(value)}`);
+  }
+
+  const entries: string[] = [];
+  for (const entry of value) {
+    const trimmed = typeof entry === 'string' ? entry.trim() : '';
+    if (!isValid(trimmed)) {
+      addConfigProblem(ctx.problems, ctx.field, ctx.source, `Ignored invalid entry ${describeEntry(entry)}`);
+      continue;
+    }
+    if (!entries.includes(trimmed)) entries.push(trimmed);
+  }
+  return entries;
+}
+
+/**
+ * Validate a `deepLinkSigning` block. Only valid fields are returned.
+ */
+export function validateDeepLinkSigningConfig(
+  raw: unknown,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[]
+): Partial<DeepLinkSigningConfig> {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, 'deepLinkSigning', source, `Expected an object, got ${describeValue(raw)}`);
+    return {};
+  }
+
+  const signing: Partial<DeepLinkSigningConfig> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: `deepLinkSigning.${key}`, source, problems };
+    switch (key) {
+      case 'requireSignatureFor':
+        setIfDefined(
+          signing,
+          key,
+          readStringList(
+            value,
+            ctx,
+            (entry) => (DEEP_LINK_SIGNING_TARGETS as readonly string[]).includes(entry),
+            describeValue
+          )
+        );
+        break;
+      case 'hmacSecrets':
+        // Secrets are never echoed back in problems.
+        setIfDefined(
+          signing,
+          key,
+          readStringList(value, ctx, (entry) => entry.length >= 16 && entry.length <= 1024, (entry) =>
+            typeof entry === 'string' ? '(secret shorter than 16 characters)' : describeValue(entry)
+          )
+        );
+        break;
+      case 'ed25519PublicKeys':
+        setIfDefined(
+          signing,
+          key,
+          readStringList(value, ctx, (entry) => parseEd25519PublicKey(entry) !== null, describeValue)
+        );
+        break;
+      case 'secureStorageKey':
+        if (typeof value === 'string' && isValidStorageKey(value)) {
+          signing.secureStorageKey = value;
+        } else {
+          reject(ctx, `Invalid secureStorage key ${describeValue(value)}`);
+        }
+        break;
+      case 'maxLifetimeSeconds':
+        setIfDefined(
+          signing,
+          key,
+          readNumber(value, ctx, {
+            min: DEEP_LINK_MAX_LIFETIME_MIN,
+            max: DEEP_LINK_MAX_LIFETIME_MAX,
+            integer: true,
+            clamp: true,
+          })
+        );
+        break;
+      default:
+        addConfigProblem(problems, ctx.field, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return signing;
+}
+
+/**
+ * Validate a `deepLinkConfirmation` block. Only valid fields are returned.
+ */
+export function validateDeepLinkConfirmationConfig(
+  raw: unknown,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[]
+): Partial<DeepLinkConfirmationConfig> {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, 'deepLinkConfirmation', source, `Expected an object, got ${describeValue(raw)}`);
+    return {};
+  }
+
+  const confirmation: Partial<DeepLinkConfirmationConfig> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: `deepLinkConfirmation.${key}`, source, problems };
+    switch (key) {
+      case 'enabled':
+        setIfDefined(confirmation, key, readBoolean(value, ctx));
+        break;
+      case 'routeAllowlist':
+        setIfDefined(
+          confirmation,
+          key,
+          readStringList(
+            value,
+            ctx,
+            (entry) => ROUTE_PREFIX_PATTERN.test(entry) && entry.length <= 256,
+            describeValue
+          )
+        );
+        break;
+      default:
+        addConfigProblem(problems, ctx.field, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return confirmation;
+}
+
+function readStorageQuota(value: unknown, ctx: FieldContext): Partial<StorageQuotaConfig> | undefined {
+  if (!isPlainObject(value)) {
+    return reject(ctx, `Expected an object, got ${describeValue(value)}`);
+  }
+
+  const quota: Partial<StorageQuotaConfig> = {};
+  for (const [key, limit] of Object.entries(value)) {
+    const limitCtx: FieldContext = { field: `${ctx.field}.${key}`, source: ctx.source, problems: ctx.problems };
+    switch (key) {
+      case 'maxBytes':
+        setIfDefined(
+          quota,
+          key,
+          readNumber(limit, limitCtx, {
+            min: STORAGE_QUOTA_BYTES_MIN,
+            max: STORAGE_QUOTA_BYTES_MAX,
+            integer: true,
+            clamp: true,
+          })
+        );
+        break;
+      case 'maxKeys':
+        setIfDefined(
+          quota,
+          key,
+          readNumber(limit, limitCtx, {
+            min: STORAGE_QUOTA_KEYS_MIN,
+            max: STORAGE_QUOTA_KEYS_MAX,
+            integer: true,
+            clamp: true,
+          })
+        );
+        break;
+      default:
+        addConfigProblem(ctx.problems, limitCtx.field, ctx.source, 'Unknown field (ignored)');
+    }
+  }
+  return quota;
+}
+
+/**
+ * Validate a `storageQuotas` block. Only valid fields are returned.
+ */
+export function validateStorageQuotasConfig(
+  raw: unknown,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[]
+): NonNullable<ConfigFile['storageQuotas']> {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, 'storageQuotas', source, `Expected an object, got ${describeValue(raw)}`);
+    return {};
+  }
+
+  const quotas: NonNullable<ConfigFile['storageQuotas']> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: `storageQuotas.${key}`, source, problems };
+    switch (key) {
+      case 'storage':
+      case 'secureStorage':
+        setIfDefined(quotas, key, readStorageQuota(value, ctx));
+        break;
+      default:
+        addConfigProblem(problems, ctx.field, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return quotas;
+}
+
+function readDeepLinkActions(value: unknown, ctx: FieldContext): Record<string, DeepLinkActionConfig> | undefined {
+  if (!isPlainObject(value)) {
+    return reject(ctx, `Expected an object keyed by action name, got ${describeValue(value)}`);
+  }
+
+  const actions: Record<string, DeepLinkActionConfig> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    const field = `${ctx.field}.${name}`;
+    if (!isCustomDeepLinkActionName(name)) {
+      addConfigProblem(ctx.problems, field, ctx.source, 'Invalid or built-in action name (ignored)');
+      continue;
+    }
+    if (!isPlainObject(entry)) {
+      addConfigProblem(ctx.problems, field, ctx.source, `Expected an object, got ${describeValue(entry)} (ignored)`);
+      continue;
+    }
+
+    const action: DeepLinkActionConfig = {};
+    for (const [key, option] of Object.entries(entry)) {
+      const optionCtx: FieldContext = { field: `${field}.${key}`, source: ctx.source, problems: ctx.problems };
+      if (key !== 'fallbackRoute') {
+        addConfigProblem(ctx.problems, optionCtx.field, ctx.source, 'Unknown field (ignored)');
+      } else if (typeof option === 'string' && ROUTE_PREFIX_PATTERN.test(option) && option.length <= 256) {
+        action.fallbackRoute = option;
+      } else {
+        reject(optionCtx, `Expected an app-relative path, got ${describeValue(option)}`);
+      }
+    }
+    actions[name] = action;
+  }
+
+  return actions;
+}
+
+function validateProfile(
+  raw: unknown,
+  name: string,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[]
+): ConfigProfile | undefined {
+  const prefix = `profiles.${name}`;
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, prefix, source, `Expected an object, got ${describeValue(raw)}`);
+    return undefined;
+  }
+
+  const profile: ConfigProfile = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: `${prefix}.${key}`, source, problems };
+    switch (key) {
+      case 'appUrl':
+        setIfDefined(profile, key, readAppUrl(value, ctx));
+        break;
+      case 'trustedOrigins':
+        setIfDefined(profile, key, readOrigins(value, ctx));
+        break;
+      case 'deepLinkScheme':
+        setIfDefined(profile, key, readScheme(value, ctx));
+        break;
+      case 'deepLinkAliases':
+        setIfDefined(profile, key, readSchemeList(value, ctx));
+        break;
+      case 'splash':
+        profile.splash = validateSplashConfig(value, source, problems, ctx.field);
+        break;
+      default:
+        addConfigProblem(problems, ctx.field, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return profile;
+}
+
+function validateProfiles(
+  raw: unknown,
+  source: ConfigProblemSource,
+  problems: ConfigProblem[]
+): Record<string, ConfigProfile> | undefined {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, 'profiles', source, `Expected an object, got ${describeValue(raw)}`);
+    return undefined;
+  }
+
+  const profiles: Record<string, ConfigProfile> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      addConfigProblem(problems, `profiles.${name}`, source, 'Invalid profile name (ignored)');
+      continue;
+    }
+    const profile = validateProfile(value, name, source, problems);
+    if (profile) profiles[name] = profile;
+  }
+  return profiles;
+}
+
+/**
+ * Validate a parsed config file. Invalid fields are dropped and reported.
+ */
+export function validateConfigFile(
+  raw: unknown,
+  problems: ConfigProblem[],
+  source: ConfigProblemSource = 'file'
+): ConfigFile {
+  if (!isPlainObject(raw)) {
+    addConfigProblem(problems, '(root)', source, `Config must be a JSON object, got ${describeValue(raw)}`);
+    return {};
+  }
+
+  const config: ConfigFile = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const ctx: FieldContext = { field: key, source, problems };
+    switch (key) {
+      case 'configVersion':
+        setIfDefined(config, key, readNumber(value, ctx, { min: 1, max: 1000, integer: true }));
+        break;
+      case 'appUrl':
+        setIfDefined(config, key, readAppUrl(value, ctx));
+        break;
+      case 'trustedOrigins':
+        setIfDefined(config, key, readOrigins(value, ctx));
+        break;
+      case 'allowHttpLocalhost':
+      case 'trustLocalhostWildcard':
+      case 'startInTray':
+      case 'minimizeToTray':
+      case 'enableNotifications':
+      case 'enableAutoUpdate':
+      case 'enableDeepLinks':
+        setIfDefined(config, key, readBoolean(value, ctx));
+        break;
+      case 'logLevel':
+        setIfDefined(config, key, readEnum(value, LOG_LEVELS, ctx));
+        break;
+      case 'updateChannel':
+        setIfDefined(config, key, readEnum(value, UPDATE_CHANNELS, ctx));
+        break;
+      case 'updateCheckInterval':
+        setIfDefined(
+          config,
+          key,
+          readNumber(value, ctx, {
+            min: UPDATE_CHECK_INTERVAL_MIN,
+            max: UPDATE_CHECK_INTERVAL_MAX,
+            clamp: true,
+          })
+        );
+        break;
+      case 'deepLinkScheme':
+        setIfDefined(config, key, readScheme(value, ctx));
+        break;
+      case 'deepLinkAliases':
+        setIfDefined(config, key, readSchemeList(value, ctx));
+        break;
+      case 'splash':
+        config.splash = validateSplashConfig(value, source, problems);
+        break;
+      case 'deepLinkSigning':
+        config.deepLinkSigning = validateDeepLinkSigningConfig(value, source, problems);
+        break;
+      case 'deepLinkConfirmation':
+        config.deepLinkConfirmation = validateDeepLinkConfirmationConfig(value, source, problems);
+        break;
+      case 'deepLinkActions':
+        setIfDefined(config, key, readDeepLinkActions(value, ctx));
+        break;
+      case 'capabilities':
+        setIfDefined(config, key, readCapabilities(value, ctx));
+        break;
+      case 'storageQuotas':
+        config.storageQuotas = validateStorageQuotasConfig(value, source, problems);
+        break;
+      case 'profiles':
+        setIfDefined(config, key, validateProfiles(value, source, problems));
+        break;
+      case 'activeProfile':
+        setIfDefined(config, key, readProfileName(value, ctx));
+        break;
+      default:
+        addConfigProblem(problems, key, source, 'Unknown field (ignored)');
+    }
+  }
+
+  return config;
+}
+
+// -----------------------------------------------------------------------------
+// Environment Overrides
+// -----------------------------------------------------------------------------
+
+function parseEnvBoolean(value: string, ctx: FieldContext): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') return true;
+  if (normalized === 'false' || normalized === '0') return false;
+  return reject(ctx, `Expected true|false|1|0, got ${describeValue(value)}`);
+}
+
+function parseEnvNumber(value: string, ctx: FieldContext): number | undefined {
+  const trimmed = value.trim();
+  const parsed = trimmed.length > 0 ? Number(trimmed) : Number.NaN;
+  if (!Number.isFinite(parsed)) {
+    return reject(ctx, `Expected a number, got ${describeValue(value)}`);
+  }
+  return readNumber(parsed, ctx, {
+    min: UPDATE_CHECK_INTERVAL_MIN,
+    max: UPDATE_CHECK_INTERVAL_MAX,
+    clamp: true,
+  });
+}
+
+/**
+ * Read and validate environment variable overrides.
+ *
+ * Problems are reported with the config field name; the message names the
+ * environment variable.
+ */
+export function readEnvOverrides(
+  env: Record<string, string | undefined>,
+  problems: ConfigProblem[]
+): ConfigFile {
+  const overrides: ConfigFile = {};
+
+  for (const [variable, field] of Object.entries(ENV_VARIABLES)) {
+    const value = env[variable];
+    if (value === undefined) continue;
+
+    const scoped: ConfigProblem[] = [];
+    const ctx: FieldContext = { field, source: 'env', problems: scoped };
+
+    switch (field) {
+      case 'appUrl':
+        setIfDefined(overrides, field, readAppUrl(value, ctx));
+        break;
+      case 'trustedOrigins':
+        setIfDefined(
+          overrides,
+          field,
+          readOrigins(value.split(',').map((s) => s.trim()).filter(Boolean), ctx)
+        );
+        break;
+      case 'allowHttpLocalhost':
+      case 'trustLocalhostWildcard':
+      case 'startInTray':
+      case 'minimizeToTray':
+      case 'enableNotifications':
+      case 'enableAutoUpdate':
+      case 'enableDeepLinks':
+        setIfDefined(overrides, field, parseEnvBoolean(value, ctx));
+        break;
+      case 'logLevel':
+        setIfDefined(overrides, field, readEnum(value.trim(), LOG_LEVELS, ctx));
+        break;
+      case 'updateChannel':
+        setIfDefined(overrides, field, readEnum(value.trim(), UPDATE_CHANNELS, ctx));
+        break;
+      case 'updateCheckInterval':
+        setIfDefined(overrides, field, parseEnvNumber(value, ctx));
+        break;
+      case 'deepLinkScheme':
+        setIfDefined(overrides, field, readScheme(value, ctx));
+        break;
+      case 'splash.enabled': {
+        const enabled = parseEnvBoolean(value, ctx);
+        if (enabled !== undefined) overrides.splash = { enabled };
+        break;
+      }
+      case 'activeProfile':
+        if (value.length > 0) setIfDefined(overrides, field, readProfileName(value, ctx));
+        break;
+    }
+
+    for (const problem of scoped) {
+      problems.push({ ...problem, problem: `${variable}: ${problem.problem}` });
+    }
+  }
+
+  return overrides;
+}
+
+// -----------------------------------------------------------------------------
+// Fallback Resolution
+// -----------------------------------------------------------------------------
+
+/**
+ * Fill `fallbackUsed` with the value that ended up in effect for each field.
+ */
+export function resolveProblemFallbacks(problems: ConfigProblem[], config: object): ConfigProblem[] {
+  return problems.map((problem) => {
+    if ((SECRET_CONFIG_FIELDS as readonly string[]).includes(problem.field)) {
+      return { ...problem, fallbackUsed: '[redacted]' };
+    }
+    let current: unknown = config;
+    for (const segment of problem.field.split('.')) {
+      current = isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)
+        ? current[segment]
+        : undefined;
+    }
+    return { ...problem, fallbackUsed: current === undefined ? null : current };
+  });
+}
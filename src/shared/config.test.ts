@@ -3,7 +3,19 @@ import assert from 'node:assert/strict';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { loadConfig, isTrustedOrigin } from './config';
+import {
+  getDeepLinkSchemes,
+  loadConfig,
+  loadConfigReport,
+  isTrustedOrigin,
+  diffConfig,
+  retainRestartRequiredFields,
+  getManagedSettings,
+  getStarterConfig,
+  stripJsonComments,
+  mergeConfigObjects,
+  writeConfigFile,
+} from './config';
 
 function withEnv<T>(vars: Record<string, string | undefined>, run: () => T): T {
   const previous: Record<string, string | undefined> = {};
@@ -162,3 +174,592 @@ test('invalid splash config values are sanitized to defaults', () => {
     }
   );
 });
+
+test('active profile overrides top-level appUrl, origins, scheme and splash', () => {
+  withTempConfigFile(
+    {
+      appUrl: 'http://localhost:8080',
+      trustedOrigins: ['http://localhost:8080'],
+      splash: { appName: 'Local', accentColor: '#111111' },
+      activeProfile: 'staging',
+      profiles: {
+        staging: {
+          appUrl: 'https://staging.example.com',
+          deepLinkScheme: 'switchboard-staging',
+          splash: { appName: 'Staging' },
+        },
+        production: {
+          appUrl: 'https://debug.example.com',
+          trustedOrigins: ['https://debug.example.com', 'https://auth.example.com'],
+        },
+      },
+    },
+    (configPath) => {
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: undefined,
+          APP_URL: undefined,
+          TRUSTED_ORIGINS: undefined,
+          DEEP_LINK_SCHEME: undefined,
+        },
+        () => {
+          const staging = loadConfig();
+          assert.equal(staging.activeProfile, 'staging');
+          assert.deepEqual(staging.profiles, ['staging', 'production']);
+          assert.equal(staging.appUrl, 'https://staging.example.com/');
+          assert.deepEqual(staging.trustedOrigins, ['https://staging.example.com']);
+          assert.equal(staging.deepLinkScheme, 'switchboard-staging');
+          assert.equal(staging.splash.appName, 'Staging');
+          assert.equal(staging.splash.accentColor, '#111111');
+
+          const production = loadConfig({ profile: 'production' });
+          assert.equal(production.activeProfile, 'production');
+          assert.deepEqual(production.trustedOrigins, [
+            'https://debug.example.com',
+            'https://auth.example.com',
+          ]);
+          assert.equal(production.deepLinkScheme, 'switchboard');
+        }
+      );
+    }
+  );
+});
+
+test('deep link aliases and profile-bound schemes', () => {
+  withTempConfigFile(
+    {
+      deepLinkAliases: ['sb', 'SB-Legacy:', 'https'],
+      profiles: {
+        beta: { deepLinkScheme: 'switchboard-beta' },
+        canary: { deepLinkAliases: ['sb-canary', 'switchboard-beta'] },
+      },
+    },
+    (configPath) => {
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: undefined,
+          DEEP_LINK_SCHEME: undefined,
+        },
+        () => {
+          const { config, problems } = loadConfigReport();
+          assert.deepEqual(config.deepLinkAliases, ['sb', 'sb-legacy']);
+          assert.deepEqual(problems.map((problem) => problem.field), ['deepLinkAliases']);
+          // The first profile declaring a scheme keeps it.
+          assert.deepEqual(config.deepLinkSchemeProfiles, {
+            'switchboard-beta': 'beta',
+            'sb-canary': 'canary',
+          });
+          assert.deepEqual(getDeepLinkSchemes(config), [
+            'switchboard',
+            'sb',
+            'sb-legacy',
+            'switchboard-beta',
+            'sb-canary',
+          ]);
+
+          // A profile with its own scheme does not inherit the top-level aliases.
+          const beta = loadConfig({ profile: 'beta' });
+          assert.equal(beta.deepLinkScheme, 'switchboard-beta');
+          assert.deepEqual(beta.deepLinkAliases, []);
+          assert.deepEqual(loadConfig({ profile: 'canary' }).deepLinkAliases, ['sb-canary', 'switchboard-beta']);
+        }
+      );
+    }
+  );
+});
+
+test('unknown profiles fall back to top-level config and env still wins', () => {
+  withTempConfigFile(
+    {
+      appUrl: 'https://debug.example.com',
+      profiles: {
+        staging: { appUrl: 'https://staging.example.com' },
+      },
+    },
+    (configPath) => {
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: 'missing',
+          APP_URL: undefined,
+          TRUSTED_ORIGINS: undefined,
+        },
+        () => {
+          const config = loadConfig();
+          assert.equal(config.activeProfile, undefined);
+          assert.equal(config.appUrl, 'https://debug.example.com/');
+        }
+      );
+
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: 'staging',
+          APP_URL: 'https://override.example.com',
+          TRUSTED_ORIGINS: undefined,
+        },
+        () => {
+          const config = loadConfig();
+          assert.equal(config.activeProfile, 'staging');
+          assert.equal(config.appUrl, 'https://override.example.com/');
+        }
+      );
+    }
+  );
+});
+
+test('diffConfig separates live changes from restart-required fields', () => {
+  withEnv(
+    {
+      SWITCHBOARD_CONFIG: undefined,
+      APP_URL: 'https://debug.example.com',
+      TRUSTED_ORIGINS: undefined,
+      LOG_LEVEL: undefined,
+      DEEP_LINK_SCHEME: undefined,
+    },
+    () => {
+      const previous = loadConfig();
+      const next = {
+        ...previous,
+        logLevel: 'debug' as const,
+        trustedOrigins: ['https://debug.example.com', 'https://other.example.com'],
+        deepLinkScheme: 'switchboard-beta',
+        splash: { ...previous.splash, accentColor: '#000000' },
+      };
+
+      const diff = diffConfig(previous, next);
+      assert.deepEqual(diff.changed.sort(), ['logLevel', 'splash.accentColor', 'trustedOrigins']);
+      assert.deepEqual(diff.restartRequired, ['deepLinkScheme']);
+
+      const applied = retainRestartRequiredFields(previous, next);
+      assert.equal(applied.logLevel, 'debug');
+      assert.equal(applied.deepLinkScheme, previous.deepLinkScheme);
+      assert.equal(applied.splash.accentColor, '#000000');
+    }
+  );
+});
+
+test('config syntax errors and invalid env values are reported as problems', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'switchboard-config-'));
+  const configPath = path.join(tempDir, 'switchboard.config.json');
+  fs.writeFileSync(configPath, '{ "appUrl": "https://debug.example.com", }', 'utf-8');
+
+  try {
+    withEnv(
+      {
+        SWITCHBOARD_CONFIG: configPath,
+        APP_URL: undefined,
+        TRUSTED_ORIGINS: undefined,
+        UPDATE_CHECK_INTERVAL: 'NaN',
+        LOG_LEVEL: 'loud',
+      },
+      () => {
+        const { config, problems } = loadConfigReport();
+        assert.equal(config.appUrl, 'http://localhost:8080');
+        assert.equal(config.updateCheckInterval, 6);
+        assert.equal(config.logLevel, 'info');
+
+        const syntaxProblem = problems.find((problem) => problem.field === '(root)');
+        assert.ok(syntaxProblem);
+        assert.match(syntaxProblem.problem, /Invalid JSON/);
+
+        const intervalProblem = problems.find((problem) => problem.field === 'updateCheckInterval');
+        assert.deepEqual(
+          intervalProblem && { source: intervalProblem.source, fallbackUsed: intervalProblem.fallbackUsed },
+          { source: 'env', fallbackUsed: 6 }
+        );
+      }
+    );
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
+test('provenance records the layer behind each field and the checked paths', () => {
+  withTempConfigFile(
+    {
+      appUrl: 'https://debug.example.com',
+      logLevel: 'warn',
+      splash: { appName: 'File Splash' },
+      activeProfile: 'staging',
+      profiles: {
+        staging: { appUrl: 'https://staging.example.com', splash: { accentColor: '#123456' } },
+      },
+    },
+    (configPath) => {
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: undefined,
+          APP_URL: undefined,
+          TRUSTED_ORIGINS: undefined,
+          LOG_LEVEL: undefined,
+          UPDATE_CHANNEL: 'beta',
+          SPLASH_ENABLED: undefined,
+        },
+        () => {
+          const { provenance } = loadConfigReport();
+          assert.equal(provenance.loadedPath, configPath);
+          assert.equal(provenance.explicitPathVariable, 'SWITCHBOARD_CONFIG');
+          assert.deepEqual(provenance.candidatePaths, [{ path: configPath, status: 'loaded' }]);
+          assert.deepEqual(provenance.fields.appUrl, {
+            layer: 'profile',
+            profile: 'staging',
+            path: configPath,
+          });
+          assert.deepEqual(provenance.fields.logLevel, { layer: 'file', path: configPath });
+          assert.deepEqual(provenance.fields.updateChannel, { layer: 'env', variable: 'UPDATE_CHANNEL' });
+          assert.deepEqual(provenance.fields.trustedOrigins, { layer: 'default' });
+          assert.deepEqual(provenance.fields['splash.appName'], { layer: 'file', path: configPath });
+          assert.deepEqual(provenance.fields['splash.accentColor'], {
+            layer: 'profile',
+            profile: 'staging',
+            path: configPath,
+          });
+          assert.deepEqual(provenance.fields['splash.enabled'], { layer: 'default' });
+          assert.deepEqual(provenance.fields.activeProfile, { layer: 'file', path: configPath });
+        }
+      );
+    }
+  );
+});
+
+test('trusted origin patterns match subdomains and port ranges strictly', () => {
+  withEnv(
+    {
+      SWITCHBOARD_CONFIG: undefined,
+      APP_URL: 'https://debug.example.com',
+      TRUSTED_ORIGINS: 'https://debug.example.com,https://*.switchboard.internal,http://localhost:8000-8100',
+      ALLOW_HTTP_LOCALHOST: 'true',
+      TRUST_LOCALHOST_WILDCARD: 'false',
+    },
+    () => {
+      const config = loadConfig();
+      assert.deepEqual(config.trustedOrigins, [
+        'https://debug.example.com',
+        'https://*.switchboard.internal',
+        'http://localhost:8000-8100',
+      ]);
+      assert.equal(isTrustedOrigin('https://pr-123.switchboard.internal/traces', config), true);
+      assert.equal(isTrustedOrigin('https://evil-switchboard.internal', config), false);
+      assert.equal(isTrustedOrigin('http://pr-123.switchboard.internal', config), false);
+      assert.equal(isTrustedOrigin('http://localhost:8050', config), true);
+      assert.equal(isTrustedOrigin('http://localhost:9000', config), false);
+    }
+  );
+});
+
+test('invalid trusted origin patterns are dropped with a problem', () => {
+  withEnv(
+    {
+      SWITCHBOARD_CONFIG: undefined,
+      APP_URL: 'https://debug.example.com',
+      TRUSTED_ORIGINS: 'https://debug.example.com,https://*.com',
+    },
+    () => {
+      const { config, problems } = loadConfigReport();
+      assert.deepEqual(config.trustedOrigins, ['https://debug.example.com']);
+      assert.ok(problems.some((problem) => /Invalid origin pattern/.test(problem.problem)));
+    }
+  );
+});
+
+test('storage quotas fill missing limits from the defaults', () => {
+  withTempConfigFile({ storageQuotas: { storage: { maxKeys: 50 } } }, (configPath) => {
+    withEnv({ SWITCHBOARD_CONFIG: configPath, SWITCHBOARD_PROFILE: undefined }, () => {
+      const { config } = loadConfigReport();
+      assert.deepEqual(config.storageQuotas, {
+        storage: { maxBytes: 10 * 1024 * 1024, maxKeys: 50 },
+        secureStorage: { maxBytes: 1024 * 1024, maxKeys: 100 },
+      });
+    });
+  });
+});
+
+test('policy file locks keys above env and config file', () => {
+  withTempConfigFile(
+    {
+      appUrl: 'https://user.example.com',
+      trustedOrigins: ['https://user.example.com', 'https://extra.example.com'],
+      enableAutoUpdate: true,
+      logLevel: 'debug',
+      splash: { appName: 'User Splash', loadingText: 'Loading...' },
+    },
+    (configPath, configDir) => {
+      const policyPath = path.join(configDir, 'policy.json');
+      fs.writeFileSync(
+        policyPath,
+        JSON.stringify({
+          appUrl: 'https://switchboard.corp.example.com',
+          enableAutoUpdate: false,
+          splash: { appName: 'Corp Switchboard' },
+          profiles: { dev: { appUrl: 'http://localhost:3000' } },
+        }),
+        'utf-8'
+      );
+
+      withEnv(
+        {
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_PROFILE: undefined,
+          APP_URL: 'https://env.example.com',
+          TRUSTED_ORIGINS: 'https://env.example.com',
+          ENABLE_AUTO_UPDATE: 'true',
+          LOG_LEVEL: undefined,
+        },
+        () => {
+          const { config, problems, provenance } = loadConfigReport({ policyPath });
+          assert.equal(config.appUrl, 'https://switchboard.corp.example.com/');
+          assert.deepEqual(config.trustedOrigins, ['https://switchboard.corp.example.com']);
+          assert.equal(config.enableAutoUpdate, false);
+          assert.equal(config.logLevel, 'debug');
+          assert.equal(config.splash.appName, 'Corp Switchboard');
+          assert.equal(config.splash.loadingText, 'Loading...');
+          assert.deepEqual(config.profiles, []);
+
+          assert.equal(provenance.policyPath, policyPath);
+          assert.deepEqual(provenance.fields.appUrl, { layer: 'policy', path: policyPath });
+          assert.deepEqual(provenance.fields.logLevel, { layer: 'file', path: configPath });
+          assert.deepEqual(getManagedSettings(provenance), {
+            policyPath,
+            lockedFields: ['appUrl', 'splash.appName', 'trustedOrigins', 'enableAutoUpdate'],
+          });
+          assert.ok(
+            problems.some((problem) => problem.source === 'policy' && problem.field === 'profiles')
+          );
+        }
+      );
+    }
+  );
+});
+
+test('missing policy file leaves config unmanaged', () => {
+  withEnv({ SWITCHBOARD_CONFIG: undefined, APP_URL: undefined, TRUSTED_ORIGINS: undefined }, () => {
+    const { provenance } = loadConfigReport({
+      policyPath: path.join(os.tmpdir(), 'switchboard-missing-policy.json'),
+    });
+    assert.deepEqual(getManagedSettings(provenance), { policyPath: null, lockedFields: [] });
+  });
+});
+
+test('stripJsonComments removes comments outside of strings only', () => {
+  const text = '{\n  // line comment\n  "url": "https://a.example.com//x", /* block\n */ "n": 1\n}';
+  assert.deepEqual(JSON.parse(stripJsonComments(text)), { url: 'https://a.example.com//x', n: 1 });
+  assert.equal(stripJsonComments(text).split('\n').length, text.split('\n').length);
+  assert.equal(stripJsonComments('{"a": "say \\"/* hi */\\""}'), '{"a": "say \\"/* hi */\\""}');
+});
+
+test('starter config loads through --config without problems', () => {
+  withTempConfigFile({}, (_configPath, configDir) => {
+    const starterPath = path.join(configDir, 'starter.jsonc');
+    fs.writeFileSync(starterPath, getStarterConfig(), 'utf-8');
+
+    withEnv(
+      { SWITCHBOARD_CONFIG: path.join(configDir, 'ignored.json'), APP_URL: undefined, TRUSTED_ORIGINS: undefined },
+      () => {
+        const { config, problems, provenance } = loadConfigReport({ configPath: starterPath, quiet: true });
+        assert.deepEqual(problems, []);
+        assert.equal(config.configPath, starterPath);
+        assert.equal(provenance.explicitPathVariable, '--config');
+        assert.deepEqual(provenance.fields.appUrl, { layer: 'file', path: starterPath });
+      }
+    );
+  });
+});
+
+function withTempConfigDir<T>(files: Record<string, string>, run: (configDir: string) => T): T {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'switchboard-config-'));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, name), content, 'utf-8');
+  }
+
+  try {
+    return run(tempDir);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+const CLEAN_ENV = {
+  SWITCHBOARD_CONFIG: undefined,
+  SWITCHBOARD_PROFILE: undefined,
+  APP_URL: undefined,
+  TRUSTED_ORIGINS: undefined,
+  LOG_LEVEL: undefined,
+  SPLASH_ENABLED: undefined,
+};
+
+test('mergeConfigObjects merges objects deeply and replaces arrays', () => {
+  assert.deepEqual(
+    mergeConfigObjects(
+      { appUrl: 'https://a.example.com', trustedOrigins: ['https://a.example.com'], splash: { appName: 'A', loadingText: 'x' } },
+      { trustedOrigins: ['https://b.example.com'], splash: { appName: 'B' } }
+    ),
+    {
+      appUrl: 'https://a.example.com',
+      trustedOrigins: ['https://b.example.com'],
+      splash: { appName: 'B', loadingText: 'x' },
+    }
+  );
+});
+
+test('extends merges YAML and JSONC parents relative to each file', () => {
+  withTempConfigDir(
+    {
+      'shared/base.yaml': [
+        '# Team defaults',
+        'appUrl: https://switchboard.internal',
+        'logLevel: warn',
+        'splash:',
+        '  appName: Team Switchboard',
+        '  logoPath: logo.png',
+        '  loadingText: Loading team...',
+      ].join('\n'),
+      'shared/overrides.jsonc': '{\n  // nested parent\n  "extends": "./base.yaml",\n  "logLevel": "info"\n}',
+      'personal.jsonc': [
+        '{',
+        '  // personal overrides',
+        '  "extends": ["./shared/overrides.jsonc"],',
+        '  "splash": { "loadingText": "Hi" }',
+        '}',
+      ].join('\n'),
+    },
+    (configDir) => {
+      const configPath = path.join(configDir, 'personal.jsonc');
+      const basePath = path.join(configDir, 'shared', 'base.yaml');
+      const overridesPath = path.join(configDir, 'shared', 'overrides.jsonc');
+
+      withEnv({ ...CLEAN_ENV, SWITCHBOARD_CONFIG: configPath }, () => {
+        const { config, problems, provenance } = loadConfigReport({ quiet: true });
+        assert.deepEqual(problems, []);
+        assert.equal(config.appUrl, 'https://switchboard.internal/');
+        assert.equal(config.logLevel, 'info');
+        assert.equal(config.splash.appName, 'Team Switchboard');
+        assert.equal(config.splash.loadingText, 'Hi');
+        assert.equal(config.splash.logoPath, path.join(configDir, 'shared', 'logo.png'));
+        assert.equal(config.configDirectory, configDir);
+
+        assert.deepEqual(provenance.extendedPaths, [basePath, overridesPath]);
+        assert.deepEqual(provenance.fields.appUrl, { layer: 'file', path: basePath });
+        assert.deepEqual(provenance.fields.logLevel, { layer: 'file', path: overridesPath });
+        assert.deepEqual(provenance.fields['splash.loadingText'], { layer: 'file', path: configPath });
+      });
+    }
+  );
+});
+
+test('extends reports cycles and missing parents and keeps the rest', () => {
+  withTempConfigDir(
+    {
+      'a.json': JSON.stringify({ extends: ['./b.json', './missing.json'], appUrl: 'https://a.example.com' }),
+      'b.json': JSON.stringify({ extends: './a.json', logLevel: 'error' }),
+    },
+    (configDir) => {
+      const configPath = path.join(configDir, 'a.json');
+      withEnv({ ...CLEAN_ENV, SWITCHBOARD_CONFIG: configPath }, () => {
+        const { config, problems } = loadConfigReport({ quiet: true });
+        assert.equal(config.appUrl, 'https://a.example.com/');
+        assert.equal(config.logLevel, 'error');
+
+        const messages = problems.filter((problem) => problem.field === 'extends').map((problem) => problem.problem);
+        assert.equal(messages.length, 2);
+        assert.match(messages[0], /^Circular extends: .*a\.json -> .*b\.json -> .*a\.json$/);
+        assert.match(messages[1], /^Parent config not found: .*missing\.json \(extended from .*a\.json\)$/);
+      });
+    }
+  );
+});
+
+test('invalid YAML is reported as a file problem', () => {
+  withTempConfigDir({ 'switchboard.config.yaml': 'appUrl: [unclosed' }, (configDir) => {
+    const configPath = path.join(configDir, 'switchboard.config.yaml');
+    withEnv({ ...CLEAN_ENV, SWITCHBOARD_CONFIG: configPath }, () => {
+      const { problems, provenance } = loadConfigReport({ quiet: true });
+      assert.match(problems[0].problem, /^Invalid YAML in /);
+      assert.deepEqual(provenance.candidatePaths, [{ path: configPath, status: 'invalid' }]);
+    });
+  });
+});
+
+test('interpolated config values are validated like APP_URL', () => {
+  withTempConfigFile(
+    {
+      appUrl: 'https://${SWITCHBOARD_TEST_HOST}',
+      trustedOrigins: ['${SWITCHBOARD_TEST_ORIGIN}'],
+      logLevel: '${SWITCHBOARD_TEST_LOG_LEVEL:-warn}',
+    },
+    (configPath) => {
+      withEnv(
+        {
+          ...CLEAN_ENV,
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_TEST_HOST: 'switchboard.internal',
+          SWITCHBOARD_TEST_ORIGIN: 'https://switchboard.internal',
+          SWITCHBOARD_TEST_LOG_LEVEL: undefined,
+        },
+        () => {
+          const { config, problems } = loadConfigReport({ quiet: true });
+          assert.deepEqual(problems, []);
+          assert.equal(config.appUrl, 'https://switchboard.internal/');
+          assert.deepEqual(config.trustedOrigins, ['https://switchboard.internal']);
+          assert.equal(config.logLevel, 'warn');
+        }
+      );
+
+      withEnv(
+        {
+          ...CLEAN_ENV,
+          SWITCHBOARD_CONFIG: configPath,
+          SWITCHBOARD_TEST_HOST: undefined,
+          SWITCHBOARD_TEST_ORIGIN: 'https://switchboard.internal',
+        },
+        () => {
+          const { config, problems } = loadConfigReport({ quiet: true });
+          assert.equal(config.appUrl, 'http://localhost:8080');
+          assert.deepEqual(
+            problems.filter((problem) => problem.field === 'appUrl').map((problem) => problem.problem),
+            [
+              'Environment variable SWITCHBOARD_TEST_HOST is not set; substituted an empty string',
+              'Invalid URL "https://"',
+            ]
+          );
+        }
+      );
+    }
+  );
+});
+
+test('legacy config files are migrated in memory before validation', () => {
+  withTempConfigFile(
+    { url: 'https://legacy.example.com', splashAppName: 'Legacy Board', deepLinkProtocol: 'legacyboard' },
+    (configPath) => {
+      withEnv({ ...CLEAN_ENV, SWITCHBOARD_CONFIG: configPath }, () => {
+        const { config, problems, migrations } = loadConfigReport({ quiet: true });
+        assert.deepEqual(problems, []);
+        assert.equal(config.appUrl, 'https://legacy.example.com/');
+        assert.equal(config.splash.appName, 'Legacy Board');
+        assert.equal(config.deepLinkScheme, 'legacyboard');
+        assert.deepEqual(
+          migrations.map((migration) => [migration.path, migration.fromVersion, migration.toVersion]),
+          [[configPath, 1, 2]]
+        );
+      });
+    }
+  );
+});
+
+test('writeConfigFile keeps a backup of the previous file', () => {
+  withTempConfigFile({ url: 'https://legacy.example.com' }, (configPath) => {
+    const backupPath = `${configPath}.v1.bak`;
+    writeConfigFile({ configVersion: 2, appUrl: 'https://legacy.example.com' }, configPath, { backupPath });
+
+    assert.deepEqual(JSON.parse(fs.readFileSync(backupPath, 'utf-8')), { url: 'https://legacy.example.com' });
+    assert.deepEqual(JSON.parse(fs.readFileSync(configPath, 'utf-8')), {
+      configVersion: 2,
+      appUrl: 'https://legacy.example.com',
+    });
+  });
+});
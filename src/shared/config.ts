@@ -3,13 +3,35 @@
  *
  * Configuration is loaded in the following order (later sources override earlier):
  * 1. Built-in defaults
- * 2. Config file (switchboard.config.json)
- * 3. Environment variables
+ * 2. Config file (switchboard.config.json/.jsonc/.yaml, merged over its `extends` parents)
+ * 3. Active profile from the config file's `profiles` map
+ * 4. Environment variables
+ * 5. Machine-wide policy file (every key it sets is locked)
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import YAML from 'yaml';
+import type {
+  ConfigCandidatePath,
+  ConfigProblem,
+  ConfigProblemSource,
+  ConfigProvenance,
+  ConfigValueSource,
+  ManagedSettingsInfo,
+} from './types';
+import {
+  addConfigProblem,
+  getEnvVariableForField,
+  isPlainObject,
+  readEnvOverrides,
+  resolveProblemFallbacks,
+  validateConfigFile,
+} from './config-validation';
+import { interpolateConfigValues } from './config-interpolation';
+import { CURRENT_CONFIG_VERSION, ConfigMigrationStep, migrateConfig } from './config-migrations';
+import { isOriginPattern, matchesOriginPattern, parseOriginPattern } from './origin-patterns';
 
 // -----------------------------------------------------------------------------
 // Types
@@ -18,8 +40,14 @@ import { app } from 'electron';
 export interface AppConfig {
   /** Primary URL to load in the renderer */
   appUrl: string;
+  /** Path of the loaded config file (if any) */
+  configPath?: string;
   /** Directory containing the loaded config file (if any) */
   configDirectory?: string;
+  /** Name of the active config profile (if any) */
+  activeProfile?: string;
+  /** Names of all profiles declared in the config file */
+  profiles: string[];
   /** Trusted origins for navigation and IPC validation */
   trustedOrigins: string[];
   /** Allow HTTP for localhost in development */
@@ -44,8 +72,22 @@ export interface AppConfig {
   enableDeepLinks: boolean;
   /** Deep link protocol scheme */
   deepLinkScheme: string;
+  /** Additional schemes registered and parsed alongside deepLinkScheme */
+  deepLinkAliases: string[];
+  /** Schemes a profile sets itself (deepLinkScheme or deepLinkAliases), by scheme */
+  deepLinkSchemeProfiles: Record<string, string>;
+  /** Signature requirements and keys for deep links */
+  deepLinkSigning: DeepLinkSigningConfig;
+  /** Native confirmation prompt for sensitive deep links */
+  deepLinkConfirmation: DeepLinkConfirmationConfig;
+  /** Custom deep link actions forwarded to the web app, by action name */
+  deepLinkActions: Record<string, DeepLinkActionConfig>;
   /** Splash screen configuration */
   splash: SplashConfig;
+  /** Bridge namespaces/channels allowed per origin or origin pattern (unlisted origins: all) */
+  capabilities: Record<string, string[]>;
+  /** Size limits for `storage` and `secureStorage` */
+  storageQuotas: StorageQuotasConfig;
 }
 
 /** Splash screen configuration */
@@ -76,8 +118,63 @@ export interface SplashConfig {
   showVersion: boolean;
 }
 
+/** Deep link signing configuration (see verifyDeepLinkSignature) */
+export interface DeepLinkSigningConfig {
+  /** Link kinds that must be signed: actions, `route`, `profile` or `*` (default: none) */
+  requireSignatureFor: string[];
+  /** Shared HMAC-SHA256 secrets (use `${VAR}` to keep them out of the file) */
+  hmacSecrets: string[];
+  /** Ed25519 public keys (PEM, or base64 of the raw key or SPKI DER) */
+  ed25519PublicKeys: string[];
+  /** secureStorage key holding an additional HMAC secret (reserved: the bridge cannot access it) */
+  secureStorageKey?: string;
+  /** Furthest a signed link's `exp` may be in the future, in seconds (default: 300) */
+  maxLifetimeSeconds: number;
+}
+
+/** Deep link confirmation prompt configuration */
+export interface DeepLinkConfirmationConfig {
+  /** Ask before `quit`, `reload` and routes outside `routeAllowlist` (default: true) */
+  enabled: boolean;
+  /** Route path prefixes that open without asking (e.g. `/traces`) */
+  routeAllowlist: string[];
+}
+
+/** Size limits for one storage namespace */
+export interface StorageQuotaConfig {
+  /** Total UTF-8 bytes of keys and values */
+  maxBytes: number;
+  /** Number of keys */
+  maxKeys: number;
+}
+
+/** Storage quotas per bridge namespace */
+export interface StorageQuotasConfig {
+  /** Local storage (default: 10 MiB, 1000 keys) */
+  storage: StorageQuotaConfig;
+  /** Secure storage (default: 1 MiB, 100 keys) */
+  secureStorage: StorageQuotaConfig;
+}
+
+/** Custom deep link action */
+export interface DeepLinkActionConfig {
+  /** Route loaded when the web app does not acknowledge the link as handled */
+  fallbackRoute?: string;
+}
+
+/** Named environment profile (overrides top-level config file values) */
+export interface ConfigProfile {
+  appUrl?: string;
+  trustedOrigins?: string[];
+  deepLinkScheme?: string;
+  deepLinkAliases?: string[];
+  splash?: Partial<SplashConfig>;
+}
+
 /** Config file structure (all fields optional) */
 export interface ConfigFile {
+  /** Config format version (see config-migrations.ts; missing means 1) */
+  configVersion?: number;
   appUrl?: string;
   trustedOrigins?: string[];
   allowHttpLocalhost?: boolean;
@@ -91,14 +188,73 @@ export interface ConfigFile {
   updateCheckInterval?: number;
   enableDeepLinks?: boolean;
   deepLinkScheme?: string;
+  deepLinkAliases?: string[];
+  deepLinkSigning?: Partial<DeepLinkSigningConfig>;
+  deepLinkConfirmation?: Partial<DeepLinkConfirmationConfig>;
+  deepLinkActions?: Record<string, DeepLinkActionConfig>;
   splash?: Partial<SplashConfig>;
+  capabilities?: Record<string, string[]>;
+  storageQuotas?: {
+    storage?: Partial<StorageQuotaConfig>;
+    secureStorage?: Partial<StorageQuotaConfig>;
+  };
+  profiles?: Record<string, ConfigProfile>;
+  activeProfile?: string;
+}
+
+/** Options for loadConfig() */
+export interface LoadConfigOptions {
+  /** Profile to activate (overrides SWITCHBOARD_PROFILE and `activeProfile`) */
+  profile?: string;
+  /**
+   * Policy file location (defaults to getPolicyPath()). Deliberately not
+   * configurable through env so users cannot point it elsewhere.
+   */
+  policyPath?: string;
+  /** Explicit config file path (`--config`); overrides SWITCHBOARD_CONFIG */
+  configPath?: string;
+  /** Skip console output (for CLI commands that print machine-readable output) */
+  quiet?: boolean;
+}
+
+/** Migration applied in memory to one loaded config file */
+export interface ConfigFileMigration {
+  path: string;
+  fromVersion: number;
+  toVersion: number;
+  steps: ConfigMigrationStep[];
+}
+
+/** Result of loading configuration, including validation problems */
+export interface ConfigLoadReport {
+  config: AppConfig;
+  problems: ConfigProblem[];
+  provenance: ConfigProvenance;
+  /** Files that were upgraded from an older configVersion while loading */
+  migrations: ConfigFileMigration[];
+}
+
+/** Options for writeConfigFile() */
+export interface WriteConfigFileOptions {
+  /** Copy the existing file here before overwriting it */
+  backupPath?: string;
 }
 
 interface LoadedConfigFile {
-  config: ConfigFile;
+  config: unknown;
   path: string;
 }
 
+/** Config file merged over its `extends` parents */
+interface ResolvedConfigFile extends LoadedConfigFile {
+  /** Parent files in merge order (furthest ancestor first) */
+  extendedPaths: string[];
+  /** File that supplied each field path (`appUrl`, `splash.appName`, `profiles.dev.appUrl`) */
+  fieldPaths: Record<string, string>;
+  /** Files in the chain upgraded from an older configVersion */
+  migrations: ConfigFileMigration[];
+}
+
 // -----------------------------------------------------------------------------
 // Config File Loading
 // -----------------------------------------------------------------------------
@@ -106,6 +262,9 @@ interface LoadedConfigFile {
 /** Config file names to search for (in order of preference) */
 const CONFIG_FILE_NAMES = [
   'switchboard.config.json',
+  'switchboard.config.jsonc',
+  'switchboard.config.yaml',
+  'switchboard.config.yml',
   'config.json',
 ];
 
@@ -153,194 +312,444 @@ function getConfigPaths(): string[] {
   return paths;
 }
 
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 /**
- * Load and parse config file if it exists
+ * Remove line and block comments outside of strings so config files can be
+ * JSONC. Newlines are kept so JSON.parse error positions still line up.
  */
-function loadConfigFile(): LoadedConfigFile | null {
-  // Check for explicit config file path via environment
-  const explicitPath = process.env.SWITCHBOARD_CONFIG;
-  if (explicitPath) {
-    try {
-      const content = fs.readFileSync(explicitPath, 'utf-8');
-      console.log(`Loaded config from: ${explicitPath}`);
-      return {
-        config: JSON.parse(content) as ConfigFile,
-        path: explicitPath,
-      };
-    } catch (err) {
-      console.error(`Failed to load config from ${explicitPath}:`, err);
-      return null;
+export function stripJsonComments(text: string): string {
+  let result = '';
+  let inString = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\' && i + 1 < text.length) {
+        result += next;
+        i += 2;
+        continue;
+      }
+      if (char === '"') inString = false;
+      i += 1;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+      i += 1;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') i += 1;
+    } else if (char === '/' && next === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) {
+        if (text[i] === '\n') result += '\n';
+        i += 1;
+      }
+      i += 2;
+    } else {
+      result += char;
+      i += 1;
     }
   }
 
-  // Search standard locations
-  for (const configPath of getConfigPaths()) {
-    try {
-      if (fs.existsSync(configPath)) {
-        const content = fs.readFileSync(configPath, 'utf-8');
-        console.log(`Loaded config from: ${configPath}`);
-        return {
-          config: JSON.parse(content) as ConfigFile,
-          path: configPath,
-        };
-      }
-    } catch {
-      // Continue to next path
-    }
+  return result;
+}
+
+function isYamlConfigPath(configPath: string): boolean {
+  return /\.ya?ml$/i.test(configPath);
+}
+
+/**
+ * Parse config file contents: YAML for `.yaml`/`.yml`, JSONC otherwise.
+ * @throws on syntax errors
+ */
+export function parseConfigText(content: string, configPath: string): unknown {
+  return isYamlConfigPath(configPath) ? YAML.parse(content) : JSON.parse(stripJsonComments(content));
+}
+
+/**
+ * Read and parse a single config file, reporting read and syntax errors.
+ */
+function readConfigFile(
+  configPath: string,
+  problems: ConfigProblem[],
+  source: ConfigProblemSource = 'file'
+): LoadedConfigFile | null {
+  let content: string;
+  try {
+    content = fs.readFileSync(configPath, 'utf-8');
+  } catch (error) {
+    addConfigProblem(problems, '(root)', source, `Unable to read ${configPath}: ${describeError(error)}`);
+    return null;
   }
 
-  return null;
+  try {
+    return { config: parseConfigText(content, configPath), path: configPath };
+  } catch (error) {
+    addConfigProblem(
+      problems,
+      '(root)',
+      source,
+      `Invalid ${isYamlConfigPath(configPath) ? 'YAML' : 'JSON'} in ${configPath}: ${describeError(error)}`
+    );
+    return null;
+  }
 }
 
 // -----------------------------------------------------------------------------
-// Environment Variable Helpers
+// Extends
 // -----------------------------------------------------------------------------
 
-function getEnv(key: string, defaultValue: string): string {
-  return process.env[key] ?? defaultValue;
-}
+const MAX_EXTENDS_DEPTH = 8;
 
-function getEnvBool(key: string, defaultValue: boolean): boolean {
-  const value = process.env[key];
-  if (value === undefined) return defaultValue;
-  return value.toLowerCase() === 'true' || value === '1';
-}
+/** Splash asset keys resolved against the file that declares them */
+const SPLASH_ASSET_KEYS = ['customHtmlPath', 'logoPath'] as const;
 
-function getEnvList(key: string, defaultValue: string[]): string[] {
-  const value = process.env[key];
-  if (!value) return defaultValue;
-  return value.split(',').map((s) => s.trim()).filter(Boolean);
+/**
+ * Deep-merge config objects. Plain objects merge key by key; arrays and
+ * scalars from `override` replace the base value.
+ */
+export function mergeConfigObjects(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    merged[key] = isPlainObject(current) && isPlainObject(value)
+      ? mergeConfigObjects(current, value)
+      : value;
+  }
+  return merged;
 }
 
-function hasEnv(key: string): boolean {
-  return process.env[key] !== undefined;
+/**
+ * Record `filePath` as the source of every field path set in `config`.
+ */
+function collectFieldPaths(
+  config: Record<string, unknown>,
+  filePath: string,
+  fieldPaths: Record<string, string>,
+  prefix = ''
+): void {
+  for (const [key, value] of Object.entries(config)) {
+    const field = `${prefix}${key}`;
+    fieldPaths[field] = filePath;
+    if (isPlainObject(value)) {
+      collectFieldPaths(value, filePath, fieldPaths, `${field}.`);
+    }
+  }
 }
 
-function parseSplashBoolean(value: unknown, fallback: boolean): boolean {
-  return typeof value === 'boolean' ? value : fallback;
-}
+/**
+ * Make relative splash asset paths in a parent file absolute, so they resolve
+ * against the parent's directory rather than the extending file's.
+ */
+function resolveParentAssetPaths(config: Record<string, unknown>, filePath: string): Record<string, unknown> {
+  const directory = path.dirname(filePath);
+  const resolveSplash = (splash: unknown): unknown => {
+    if (!isPlainObject(splash)) return splash;
+    const resolved = { ...splash };
+    for (const key of SPLASH_ASSET_KEYS) {
+      const value = resolved[key];
+      if (typeof value === 'string' && value.trim() && !path.isAbsolute(value.trim())) {
+        resolved[key] = path.resolve(directory, value.trim());
+      }
+    }
+    return resolved;
+  };
 
-function parseSplashPath(value: unknown): string | undefined {
-  if (typeof value !== 'string') {
-    return undefined;
+  const resolved = { ...config };
+  if (config.splash !== undefined) {
+    resolved.splash = resolveSplash(config.splash);
   }
-
-  const trimmed = value.trim();
-  if (trimmed.length === 0 || trimmed.length > 1024 || trimmed.includes('\0')) {
-    return undefined;
+  if (isPlainObject(config.profiles)) {
+    resolved.profiles = Object.fromEntries(
+      Object.entries(config.profiles).map(([name, profile]) => [
+        name,
+        isPlainObject(profile) && profile.splash !== undefined
+          ? { ...profile, splash: resolveSplash(profile.splash) }
+          : profile,
+      ])
+    );
   }
+  return resolved;
+}
 
-  return trimmed;
+function readExtendsList(value: unknown, problems: ConfigProblem[]): string[] {
+  const entries = Array.isArray(value) ? value : [value];
+  const parents: string[] = [];
+  for (const entry of entries) {
+    if (typeof entry === 'string' && entry.trim().length > 0) {
+      parents.push(entry.trim());
+    } else {
+      addConfigProblem(problems, 'extends', 'file', `Expected a file path or list of paths, got ${JSON.stringify(entry)}`);
+    }
+  }
+  return parents;
 }
 
-function parseSplashString(
-  value: unknown,
-  fallback: string,
-  field: string,
-  maxLength: number
-): string {
-  if (typeof value !== 'string') {
-    return fallback;
+/**
+ * Merge a loaded config file over the parents listed in its `extends` key.
+ *
+ * Parents are resolved relative to the file that names them and merged in
+ * order, so later parents override earlier ones and the file itself wins.
+ * Missing parents and cycles are reported and skipped.
+ */
+function resolveExtends(
+  loaded: LoadedConfigFile,
+  problems: ConfigProblem[],
+  chain: string[] = [path.resolve(loaded.path)]
+): ResolvedConfigFile {
+  const fieldPaths: Record<string, string> = {};
+  if (!isPlainObject(loaded.config)) {
+    return { ...loaded, extendedPaths: [], fieldPaths, migrations: [] };
   }
 
-  const trimmed = value.trim();
-  if (trimmed.length === 0 || trimmed.length > maxLength) {
-    console.warn(`Invalid splash.${field}. Falling back to default.`);
-    return fallback;
+  // Each file is upgraded to the current format before it is merged.
+  const migration = migrateConfig(loaded.config);
+  const migrations: ConfigFileMigration[] = [];
+  if (migration.steps.length > 0) {
+    migrations.push({
+      path: loaded.path,
+      fromVersion: migration.fromVersion,
+      toVersion: migration.toVersion,
+      steps: migration.steps,
+    });
   }
+  if (migration.fromVersion > CURRENT_CONFIG_VERSION) {
+    addConfigProblem(
+      problems,
+      'configVersion',
+      'file',
+      `${loaded.path} uses configVersion ${migration.fromVersion}, newer than supported (${CURRENT_CONFIG_VERSION}); unknown fields are ignored`
+    );
+  }
+  const fileConfig = chain.length > 1
+    ? resolveParentAssetPaths(migration.config, loaded.path)
+    : migration.config;
+
+  const { extends: extendsValue, ...own } = fileConfig;
+  let merged: Record<string, unknown> = {};
+  const extendedPaths: string[] = [];
+
+  const parents = extendsValue === undefined ? [] : readExtendsList(extendsValue, problems);
+  for (const parentRef of parents) {
+    const parentPath = path.resolve(path.dirname(loaded.path), parentRef);
+    if (chain.includes(parentPath)) {
+      addConfigProblem(problems, 'extends', 'file', `Circular extends: ${[...chain, parentPath].join(' -> ')}`);
+      continue;
+    }
+    if (chain.length > MAX_EXTENDS_DEPTH) {
+      addConfigProblem(problems, 'extends', 'file', `Extends chain deeper than ${MAX_EXTENDS_DEPTH} files at ${parentPath}`);
+      continue;
+    }
+    if (!fs.existsSync(parentPath)) {
+      addConfigProblem(
+        problems,
+        'extends',
+        'file',
+        `Parent config not found: ${parentPath} (extended from ${loaded.path})`
+      );
+      continue;
+    }
+
+    const parentFile = readConfigFile(parentPath, problems);
+    if (!parentFile) continue;
+    if (!isPlainObject(parentFile.config)) {
+      addConfigProblem(problems, 'extends', 'file', `Parent config ${parentPath} must be an object`);
+      continue;
+    }
 
-  return trimmed;
+    const parent = resolveExtends(parentFile, problems, [...chain, parentPath]);
+    merged = mergeConfigObjects(merged, parent.config as Record<string, unknown>);
+    Object.assign(fieldPaths, parent.fieldPaths);
+    migrations.push(...parent.migrations);
+    for (const extendedPath of [...parent.extendedPaths, parentPath]) {
+      if (!extendedPaths.includes(extendedPath)) extendedPaths.push(extendedPath);
+    }
+  }
+
+  collectFieldPaths(own, loaded.path, fieldPaths);
+  return {
+    config: mergeConfigObjects(merged, own),
+    path: loaded.path,
+    extendedPaths,
+    fieldPaths,
+    migrations,
+  };
 }
 
-function parseSplashNumber(
-  value: unknown,
-  fallback: number,
-  field: string,
-  min: number,
-  max: number
-): number {
-  if (typeof value !== 'number' || !Number.isFinite(value)) {
-    return fallback;
+/**
+ * Load and parse config file if it exists
+ *
+ * Every candidate path is recorded in `candidates` with its discovery status.
+ */
+function loadConfigFile(
+  problems: ConfigProblem[],
+  candidates: ConfigCandidatePath[],
+  explicitPath: string | undefined
+): ResolvedConfigFile | null {
+  // Check for explicit config file path (--config or SWITCHBOARD_CONFIG)
+  if (explicitPath) {
+    const loaded = readConfigFile(explicitPath, problems);
+    candidates.push({
+      path: explicitPath,
+      status: loaded ? 'loaded' : fs.existsSync(explicitPath) ? 'invalid' : 'missing',
+    });
+    return loaded ? resolveExtends(loaded, problems) : null;
   }
 
-  const rounded = Math.round(value);
-  if (rounded < min || rounded > max) {
-    console.warn(`Invalid splash.${field}. Falling back to default.`);
-    return fallback;
+  // Search standard locations; unreadable or invalid files fall through to the next path.
+  let loaded: ResolvedConfigFile | null = null;
+  for (const configPath of getConfigPaths()) {
+    if (!fs.existsSync(configPath)) {
+      candidates.push({ path: configPath, status: 'missing' });
+      continue;
+    }
+    if (loaded) {
+      candidates.push({ path: configPath, status: 'shadowed' });
+      continue;
+    }
+    const file = readConfigFile(configPath, problems);
+    candidates.push({ path: configPath, status: file ? 'loaded' : 'invalid' });
+    loaded = file ? resolveExtends(file, problems) : null;
   }
 
-  return rounded;
+  return loaded;
 }
 
-function parseSplashOptionalNumber(
-  value: unknown,
-  field: string,
-  min: number,
-  max: number
-): number | undefined {
-  if (value === undefined) return undefined;
-  if (typeof value !== 'number' || !Number.isFinite(value)) {
-    console.warn(`Invalid splash.${field}. Ignoring value.`);
-    return undefined;
+// -----------------------------------------------------------------------------
+// Policy File
+// -----------------------------------------------------------------------------
+
+/** Keys that only make sense in user config and are ignored in policy files */
+const POLICY_UNSUPPORTED_KEYS = ['profiles', 'activeProfile'] as const;
+
+/**
+ * Get the machine-wide policy file path for this platform
+ */
+export function getPolicyPath(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return '/Library/Application Support/Switchboard/policy.json';
+    case 'win32':
+      return path.join(process.env.ProgramData || 'C:\\ProgramData', 'Switchboard', 'policy.json');
+    default:
+      return '/etc/switchboard/policy.json';
   }
+}
 
-  const rounded = Math.round(value);
-  if (rounded < min || rounded > max) {
-    console.warn(`Invalid splash.${field}. Ignoring value.`);
-    return undefined;
+/**
+ * Load and validate the policy file if it exists. A missing file means no policy.
+ */
+function loadPolicyFile(
+  policyPath: string,
+  problems: ConfigProblem[]
+): { config: ConfigFile; path: string } | null {
+  if (!fs.existsSync(policyPath)) return null;
+
+  const loaded = readConfigFile(policyPath, problems, 'policy');
+  if (!loaded) return null;
+
+  const config = validateConfigFile(loaded.config, problems, 'policy');
+  for (const key of POLICY_UNSUPPORTED_KEYS) {
+    if (config[key] !== undefined) {
+      addConfigProblem(problems, key, 'policy', 'Not supported in policy files (ignored)');
+      delete config[key];
+    }
   }
+  return { config, path: policyPath };
+}
 
-  return rounded;
+/**
+ * Summarize the fields locked by the policy file from a provenance report.
+ */
+export function getManagedSettings(provenance: ConfigProvenance): ManagedSettingsInfo {
+  return {
+    policyPath: provenance.policyPath,
+    lockedFields: Object.entries(provenance.fields)
+      .filter(([, source]) => source.layer === 'policy')
+      .map(([field]) => field),
+  };
 }
 
-function isValidSplashColor(value: string): boolean {
-  const trimmed = value.trim();
-  if (trimmed.length === 0 || trimmed.length > 64) return false;
+// -----------------------------------------------------------------------------
+// Profiles
+// -----------------------------------------------------------------------------
 
-  const hexColor = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
-  const rgbLikeColor = /^(?:rgb|rgba|hsl|hsla)\(\s*[0-9.%\s,]+\)$/i;
-  const namedColor = /^[a-zA-Z]+$/;
+const PROFILE_NAME_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/;
 
-  return hexColor.test(trimmed) || rgbLikeColor.test(trimmed) || namedColor.test(trimmed);
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
 }
 
-function parseSplashColor(value: unknown, fallback: string, field: string): string {
-  if (typeof value !== 'string') {
-    return fallback;
+/**
+ * Overlay the selected profile on top of the top-level config file values.
+ *
+ * A profile that sets `appUrl` without `trustedOrigins` does not inherit the
+ * top-level origins, so they are recomputed from the profile's own appUrl.
+ * Likewise a profile that sets `deepLinkScheme` without `deepLinkAliases` has
+ * no aliases.
+ */
+function applyProfile(
+  fileConfig: ConfigFile,
+  requestedProfile: string | undefined
+): { config: ConfigFile; activeProfile?: string } {
+  const profile = requestedProfile ? fileConfig.profiles?.[requestedProfile] : undefined;
+  if (!requestedProfile || !profile) {
+    return { config: fileConfig };
   }
 
-  const trimmed = value.trim();
-  if (!isValidSplashColor(trimmed)) {
-    console.warn(`Invalid splash.${field}. Falling back to default.`);
-    return fallback;
-  }
+  const trustedOrigins =
+    profile.trustedOrigins ??
+    (profile.appUrl !== undefined ? undefined : fileConfig.trustedOrigins);
 
-  return trimmed;
+  return {
+    config: {
+      ...fileConfig,
+      appUrl: profile.appUrl ?? fileConfig.appUrl,
+      trustedOrigins,
+      deepLinkScheme: profile.deepLinkScheme ?? fileConfig.deepLinkScheme,
+      deepLinkAliases:
+        profile.deepLinkAliases ?? (profile.deepLinkScheme !== undefined ? undefined : fileConfig.deepLinkAliases),
+      splash: { ...fileConfig.splash, ...profile.splash },
+    },
+    activeProfile: requestedProfile,
+  };
 }
 
-function normalizeSplashConfig(
-  input: Partial<SplashConfig> | undefined,
-  defaults: SplashConfig,
-  envEnabledOverride?: boolean
-): SplashConfig {
-  return {
-    enabled: envEnabledOverride ?? parseSplashBoolean(input?.enabled, defaults.enabled),
-    customHtmlPath: parseSplashPath(input?.customHtmlPath),
-    logoPath: parseSplashPath(input?.logoPath),
-    logoWidth: parseSplashNumber(input?.logoWidth, defaults.logoWidth, 'logoWidth', 16, 512),
-    logoHeight: parseSplashOptionalNumber(input?.logoHeight, 'logoHeight', 16, 512),
-    backgroundColor: parseSplashColor(input?.backgroundColor, defaults.backgroundColor, 'backgroundColor'),
-    textColor: parseSplashColor(input?.textColor, defaults.textColor, 'textColor'),
-    textColorSecondary: parseSplashColor(
-      input?.textColorSecondary,
-      defaults.textColorSecondary,
-      'textColorSecondary'
+/**
+ * Map each scheme a profile sets itself to that profile. When profiles share
+ * a scheme, the first one declared keeps it.
+ */
+function getDeepLinkSchemeProfiles(profiles: Record<string, ConfigProfile>): Record<string, string> {
+  const schemeProfiles: Record<string, string> = {};
+  for (const [name, profile] of Object.entries(profiles)) {
+    for (const scheme of [profile.deepLinkScheme, ...(profile.deepLinkAliases ?? [])]) {
+      if (scheme !== undefined && !(scheme in schemeProfiles)) schemeProfiles[scheme] = name;
+    }
+  }
+  return schemeProfiles;
+}
+
+/**
+ * Every scheme to register and parse: deepLinkScheme first, then its aliases
+ * and the schemes bound to profiles.
+ */
+export function getDeepLinkSchemes(config: AppConfig): string[] {
+  return [
+    ...new Set(
+      [config.deepLinkScheme, ...config.deepLinkAliases, ...Object.keys(config.deepLinkSchemeProfiles)].map(
+        (scheme) => scheme.toLowerCase()
+      )
     ),
-    accentColor: parseSplashColor(input?.accentColor, defaults.accentColor, 'accentColor'),
-    loadingText: parseSplashString(input?.loadingText, defaults.loadingText, 'loadingText', 120),
-    appName: parseSplashString(input?.appName, defaults.appName, 'appName', 64),
-    showVersion: parseSplashBoolean(input?.showVersion, defaults.showVersion),
-  };
+  ];
 }
 
 // -----------------------------------------------------------------------------
@@ -348,7 +757,9 @@ function normalizeSplashConfig(
 // -----------------------------------------------------------------------------
 
 /** Built-in defaults */
-const DEFAULTS: Omit<AppConfig, 'trustedOrigins'> & { trustedOrigins?: string[] } = {
+const DEFAULTS: Omit<AppConfig, 'trustedOrigins' | 'profiles' | 'deepLinkSchemeProfiles'> & {
+  trustedOrigins?: string[];
+} = {
   appUrl: 'http://localhost:8080',
   trustedOrigins: undefined, // Computed from appUrl if not set
   allowHttpLocalhost: true,
@@ -362,6 +773,18 @@ const DEFAULTS: Omit<AppConfig, 'trustedOrigins'> & { trustedOrigins?: string[]
   updateCheckInterval: 6,
   enableDeepLinks: true,
   deepLinkScheme: 'switchboard',
+  deepLinkAliases: [],
+  deepLinkSigning: {
+    requireSignatureFor: [],
+    hmacSecrets: [],
+    ed25519PublicKeys: [],
+    maxLifetimeSeconds: 300,
+  },
+  deepLinkConfirmation: {
+    enabled: true,
+    routeAllowlist: [],
+  },
+  deepLinkActions: {},
   splash: {
     enabled: true,
     logoWidth: 80,
@@ -373,111 +796,309 @@ const DEFAULTS: Omit<AppConfig, 'trustedOrigins'> & { trustedOrigins?: string[]
     appName: 'Switchboard',
     showVersion: true,
   },
+  capabilities: {},
+  storageQuotas: {
+    storage: { maxBytes: 10 * 1024 * 1024, maxKeys: 1000 },
+    secureStorage: { maxBytes: 1024 * 1024, maxKeys: 100 },
+  },
 };
 
 /**
- * Load configuration from defaults, config file, and environment variables
+ * Load configuration from defaults, config file, and environment variables,
+ * returning the validation problems alongside the resolved config.
  *
  * Priority (highest to lowest):
+ * 0. Policy file (locked keys ignore every lower layer)
  * 1. Environment variables
- * 2. Config file
- * 3. Built-in defaults
+ * 2. Active profile (options.profile, SWITCHBOARD_PROFILE, or `activeProfile`)
+ * 3. Config file
+ * 4. Built-in defaults
+ *
+ * Invalid values are reported and fall through to the next layer.
  */
-export function loadConfig(): AppConfig {
-  // Load config file (if exists)
-  const loadedConfig = loadConfigFile();
-  const fileConfig = loadedConfig?.config ?? {};
+export function loadConfigReport(options: LoadConfigOptions = {}): ConfigLoadReport {
+  const problems: ConfigProblem[] = [];
+  const candidatePaths: ConfigCandidatePath[] = [];
+
+  // Load and validate config file (if exists)
+  const explicitPath = options.configPath ?? (process.env.SWITCHBOARD_CONFIG || undefined);
+  const loadedConfig = loadConfigFile(problems, candidatePaths, explicitPath);
+  // ${VAR} references are substituted before validation so bad values fall back as usual.
+  const rawFileConfig = loadedConfig
+    ? validateConfigFile(interpolateConfigValues(loadedConfig.config, process.env, problems), problems)
+    : {};
   const configDirectory = loadedConfig ? path.dirname(loadedConfig.path) : undefined;
+  const env = readEnvOverrides(process.env, problems);
+  const policyFile = loadPolicyFile(options.policyPath ?? getPolicyPath(), problems);
+  const policy: ConfigFile = policyFile?.config ?? {};
+  const policySource: ConfigValueSource = { layer: 'policy', path: policyFile?.path ?? '' };
+
+  const requestedProfile = options.profile ?? env.activeProfile ?? rawFileConfig.activeProfile;
+  const { config: fileConfig, activeProfile } = applyProfile(rawFileConfig, requestedProfile);
+  if (requestedProfile !== undefined && activeProfile === undefined) {
+    addConfigProblem(
+      problems,
+      'activeProfile',
+      env.activeProfile !== undefined && options.profile === undefined ? 'env' : 'file',
+      `Unknown config profile "${requestedProfile}"; using top-level config`
+    );
+  }
+  const profile = activeProfile ? rawFileConfig.profiles?.[activeProfile] : undefined;
+
+  // Track which layer supplied each field while merging.
+  const sources: Record<string, ConfigValueSource> = {};
+  const fileSource = (field: string, profileValue: unknown): ConfigValueSource => {
+    const fieldPaths = loadedConfig?.fieldPaths ?? {};
+    if (profileValue !== undefined && activeProfile && loadedConfig) {
+      const profilePath = fieldPaths[`profiles.${activeProfile}.${field}`] ?? loadedConfig.path;
+      return { layer: 'profile', profile: activeProfile, path: profilePath };
+    }
+    return { layer: 'file', path: fieldPaths[field] ?? loadedConfig?.path ?? '' };
+  };
 
-  // Merge: defaults <- file <- env
-  const rawAppUrl =
-    hasEnv('APP_URL') ? getEnv('APP_URL', '') :
-    fileConfig.appUrl ?? DEFAULTS.appUrl;
-
-  let appUrl = rawAppUrl;
-  try {
-    const parsed = new URL(rawAppUrl);
-    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
-      throw new Error(`unsupported protocol ${parsed.protocol}`);
+  function pick<K extends keyof ConfigFile & keyof AppConfig>(
+    field: K,
+    fallback: AppConfig[K]
+  ): AppConfig[K] {
+    const policyValue = policy[field] as AppConfig[K] | undefined;
+    if (policyValue !== undefined) {
+      sources[field] = policySource;
+      return policyValue;
     }
-    appUrl = parsed.toString();
-  } catch (error) {
-    appUrl = DEFAULTS.appUrl;
-    console.warn(
-      `Invalid APP_URL "${rawAppUrl}". Falling back to "${appUrl}".`,
-      error instanceof Error ? error.message : error
-    );
+    const envValue = env[field] as AppConfig[K] | undefined;
+    if (envValue !== undefined) {
+      sources[field] = { layer: 'env', variable: getEnvVariableForField(field) ?? field };
+      return envValue;
+    }
+    const fileValue = fileConfig[field] as AppConfig[K] | undefined;
+    if (fileValue !== undefined) {
+      sources[field] = fileSource(field, profile?.[field as keyof ConfigProfile]);
+      return fileValue;
+    }
+    sources[field] = { layer: 'default' };
+    return fallback;
   }
 
+  // Merge: defaults <- file <- profile <- env
+  const appUrl = pick('appUrl', DEFAULTS.appUrl);
+
   // Compute default trusted origins from appUrl
   const appOrigin = new URL(appUrl).origin;
   const defaultTrustedOrigins = [appOrigin];
 
-  const trustedOrigins =
-    hasEnv('TRUSTED_ORIGINS') ? getEnvList('TRUSTED_ORIGINS', []) :
-    fileConfig.trustedOrigins ?? defaultTrustedOrigins;
+  // A policy that locks appUrl without trustedOrigins also locks the origins
+  // to that appUrl, so lower layers cannot widen trust around a managed URL.
+  if (policy.appUrl !== undefined && policy.trustedOrigins === undefined) {
+    policy.trustedOrigins = defaultTrustedOrigins;
+  }
+
+  const splash = { ...DEFAULTS.splash } as SplashConfig;
+  const splashFields = new Set([
+    ...Object.keys(DEFAULTS.splash),
+    ...Object.keys(fileConfig.splash ?? {}),
+    ...Object.keys(policy.splash ?? {}),
+  ]) as Set<keyof SplashConfig>;
+  for (const field of splashFields) {
+    const policyValue = policy.splash?.[field];
+    const envValue = env.splash?.[field];
+    const fileValue = fileConfig.splash?.[field];
+    if (policyValue !== undefined) {
+      (splash as unknown as Record<string, unknown>)[field] = policyValue;
+      sources[`splash.${field}`] = policySource;
+    } else if (envValue !== undefined) {
+      (splash as unknown as Record<string, unknown>)[field] = envValue;
+      sources[`splash.${field}`] = {
+        layer: 'env',
+        variable: getEnvVariableForField(`splash.${field}`) ?? `splash.${field}`,
+      };
+    } else if (fileValue !== undefined) {
+      (splash as unknown as Record<string, unknown>)[field] = fileValue;
+      sources[`splash.${field}`] = fileSource(`splash.${field}`, profile?.splash?.[field]);
+    } else {
+      sources[`splash.${field}`] = { layer: 'default' };
+    }
+  }
+
+  // Like deepLinkSigning, the block comes from a single layer; missing limits use the defaults.
+  const pickedQuotas = pick('storageQuotas', DEFAULTS.storageQuotas);
+  const storageQuotas: StorageQuotasConfig = {
+    storage: { ...DEFAULTS.storageQuotas.storage, ...pickedQuotas.storage },
+    secureStorage: { ...DEFAULTS.storageQuotas.secureStorage, ...pickedQuotas.secureStorage },
+  };
 
   const config: AppConfig = {
     appUrl,
+    configPath: loadedConfig?.path,
     configDirectory,
-    trustedOrigins,
+    activeProfile,
+    profiles: Object.keys(rawFileConfig.profiles ?? {}),
+    trustedOrigins: pick('trustedOrigins', defaultTrustedOrigins),
+    allowHttpLocalhost: pick('allowHttpLocalhost', DEFAULTS.allowHttpLocalhost),
+    trustLocalhostWildcard: pick('trustLocalhostWildcard', DEFAULTS.trustLocalhostWildcard),
+    startInTray: pick('startInTray', DEFAULTS.startInTray),
+    minimizeToTray: pick('minimizeToTray', DEFAULTS.minimizeToTray),
+    enableNotifications: pick('enableNotifications', DEFAULTS.enableNotifications),
+    logLevel: pick('logLevel', DEFAULTS.logLevel),
+    enableAutoUpdate: pick('enableAutoUpdate', DEFAULTS.enableAutoUpdate),
+    updateChannel: pick('updateChannel', DEFAULTS.updateChannel),
+    updateCheckInterval: pick('updateCheckInterval', DEFAULTS.updateCheckInterval),
+    enableDeepLinks: pick('enableDeepLinks', DEFAULTS.enableDeepLinks),
+    deepLinkScheme: pick('deepLinkScheme', DEFAULTS.deepLinkScheme),
+    deepLinkAliases: pick('deepLinkAliases', DEFAULTS.deepLinkAliases),
+    deepLinkSchemeProfiles: getDeepLinkSchemeProfiles(rawFileConfig.profiles ?? {}),
+    // The block is taken from a single layer, so a policy can pin the whole signing setup.
+    deepLinkSigning: { ...DEFAULTS.deepLinkSigning, ...pick('deepLinkSigning', DEFAULTS.deepLinkSigning) },
+    deepLinkConfirmation: {
+      ...DEFAULTS.deepLinkConfirmation,
+      ...pick('deepLinkConfirmation', DEFAULTS.deepLinkConfirmation),
+    },
+    deepLinkActions: pick('deepLinkActions', DEFAULTS.deepLinkActions),
+    splash,
+    capabilities: pick('capabilities', DEFAULTS.capabilities),
+    storageQuotas,
+  };
 
-    allowHttpLocalhost:
-      hasEnv('ALLOW_HTTP_LOCALHOST') ? getEnvBool('ALLOW_HTTP_LOCALHOST', true) :
-      fileConfig.allowHttpLocalhost ?? DEFAULTS.allowHttpLocalhost,
+  if (!activeProfile) {
+    sources.activeProfile = { layer: 'default' };
+  } else if (options.profile !== undefined) {
+    sources.activeProfile = { layer: 'runtime' };
+  } else if (env.activeProfile !== undefined) {
+    sources.activeProfile = { layer: 'env', variable: 'SWITCHBOARD_PROFILE' };
+  } else {
+    sources.activeProfile = { layer: 'file', path: loadedConfig?.path ?? '' };
+  }
 
-    trustLocalhostWildcard:
-      hasEnv('TRUST_LOCALHOST_WILDCARD') ? getEnvBool('TRUST_LOCALHOST_WILDCARD', true) :
-      fileConfig.trustLocalhostWildcard ?? DEFAULTS.trustLocalhostWildcard,
+  const resolvedProblems = resolveProblemFallbacks(problems, config);
+  if (!options.quiet) {
+    if (loadedConfig) console.log(`Loaded config from: ${loadedConfig.path}`);
+    if (policyFile) console.log(`Loaded policy from: ${policyFile.path}`);
+    for (const problem of resolvedProblems) {
+      console.warn(
+        `Config problem (${problem.source}) ${problem.field}: ${problem.problem}. ` +
+          `Using ${JSON.stringify(problem.fallbackUsed)}.`
+      );
+    }
+  }
 
-    startInTray:
-      hasEnv('START_IN_TRAY') ? getEnvBool('START_IN_TRAY', false) :
-      fileConfig.startInTray ?? DEFAULTS.startInTray,
+  return {
+    config,
+    problems: resolvedProblems,
+    provenance: {
+      fields: sources,
+      candidatePaths,
+      loadedPath: loadedConfig?.path ?? null,
+      extendedPaths: loadedConfig?.extendedPaths ?? [],
+      explicitPathVariable: options.configPath
+        ? '--config'
+        : process.env.SWITCHBOARD_CONFIG
+          ? 'SWITCHBOARD_CONFIG'
+          : null,
+      policyPath: policyFile?.path ?? null,
+    },
+    migrations: loadedConfig?.migrations ?? [],
+  };
+}
 
-    minimizeToTray:
-      hasEnv('MINIMIZE_TO_TRAY') ? getEnvBool('MINIMIZE_TO_TRAY', true) :
-      fileConfig.minimizeToTray ?? DEFAULTS.minimizeToTray,
+/**
+ * Load configuration from defaults, config file, and environment variables
+ */
+export function loadConfig(options: LoadConfigOptions = {}): AppConfig {
+  return loadConfigReport(options).config;
+}
 
-    enableNotifications:
-      hasEnv('ENABLE_NOTIFICATIONS') ? getEnvBool('ENABLE_NOTIFICATIONS', true) :
-      fileConfig.enableNotifications ?? DEFAULTS.enableNotifications,
+// -----------------------------------------------------------------------------
+// Live Reload
+// -----------------------------------------------------------------------------
 
-    logLevel:
-      hasEnv('LOG_LEVEL') ? getEnv('LOG_LEVEL', 'info') as AppConfig['logLevel'] :
-      fileConfig.logLevel ?? DEFAULTS.logLevel,
+/** Fields that only take effect on the next launch */
+export const RESTART_REQUIRED_FIELDS = [
+  'enableDeepLinks',
+  'deepLinkScheme',
+  'deepLinkAliases',
+  'deepLinkSchemeProfiles',
+  'enableAutoUpdate',
+  'updateChannel',
+  'updateCheckInterval',
+  'startInTray',
+] as const satisfies readonly (keyof AppConfig)[];
+
+type RestartRequiredField = (typeof RESTART_REQUIRED_FIELDS)[number];
+
+/** Metadata fields that describe the load rather than the configuration */
+const METADATA_FIELDS: readonly (keyof AppConfig)[] = ['configPath', 'configDirectory', 'profiles'];
+
+export interface ConfigDiff {
+  /** Changed fields that can be applied live (splash fields as `splash.<name>`) */
+  changed: string[];
+  /** Changed fields that only take effect after a restart */
+  restartRequired: string[];
+}
 
-    enableAutoUpdate:
-      hasEnv('ENABLE_AUTO_UPDATE') ? getEnvBool('ENABLE_AUTO_UPDATE', true) :
-      fileConfig.enableAutoUpdate ?? DEFAULTS.enableAutoUpdate,
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
 
-    updateChannel:
-      hasEnv('UPDATE_CHANNEL') ? getEnv('UPDATE_CHANNEL', 'stable') as AppConfig['updateChannel'] :
-      fileConfig.updateChannel ?? DEFAULTS.updateChannel,
+/**
+ * Compare two loaded configurations field by field.
+ */
+export function diffConfig(previous: AppConfig, next: AppConfig): ConfigDiff {
+  const diff: ConfigDiff = { changed: [], restartRequired: [] };
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof AppConfig>;
+
+  for (const field of fields) {
+    if (METADATA_FIELDS.includes(field)) continue;
+
+    if (field === 'splash') {
+      const splashFields = new Set([
+        ...Object.keys(previous.splash),
+        ...Object.keys(next.splash),
+      ]) as Set<keyof SplashConfig>;
+      for (const splashField of splashFields) {
+        if (!isSameValue(previous.splash[splashField], next.splash[splashField])) {
+          diff.changed.push(`splash.${splashField}`);
+        }
+      }
+      continue;
+    }
 
-    updateCheckInterval:
-      hasEnv('UPDATE_CHECK_INTERVAL') ? parseInt(getEnv('UPDATE_CHECK_INTERVAL', '6'), 10) :
-      fileConfig.updateCheckInterval ?? DEFAULTS.updateCheckInterval,
+    if (isSameValue(previous[field], next[field])) continue;
 
-    enableDeepLinks:
-      hasEnv('ENABLE_DEEP_LINKS') ? getEnvBool('ENABLE_DEEP_LINKS', true) :
-      fileConfig.enableDeepLinks ?? DEFAULTS.enableDeepLinks,
+    if ((RESTART_REQUIRED_FIELDS as readonly string[]).includes(field)) {
+      diff.restartRequired.push(field);
+    } else {
+      diff.changed.push(field);
+    }
+  }
 
-    deepLinkScheme:
-      hasEnv('DEEP_LINK_SCHEME') ? getEnv('DEEP_LINK_SCHEME', 'switchboard') :
-      fileConfig.deepLinkScheme ?? DEFAULTS.deepLinkScheme,
+  return diff;
+}
 
-    splash: normalizeSplashConfig(
-      fileConfig.splash,
-      DEFAULTS.splash,
-      hasEnv('SPLASH_ENABLED') ? getEnvBool('SPLASH_ENABLED', true) : undefined
-    ),
-  };
+/**
+ * Build the config to apply live: restart-only fields keep their running values.
+ */
+export function retainRestartRequiredFields(previous: AppConfig, next: AppConfig): AppConfig {
+  const applied: AppConfig = { ...next };
+  for (const field of RESTART_REQUIRED_FIELDS) {
+    (applied as Record<RestartRequiredField, unknown>)[field] = previous[field];
+  }
+  return applied;
+}
 
-  return config;
+/**
+ * Copy of the config with secret values replaced, for printing and diagnostics
+ */
+export function redactConfigSecrets(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    deepLinkSigning: {
+      ...config.deepLinkSigning,
+      hmacSecrets: config.deepLinkSigning.hmacSecrets.map(() => '[redacted]'),
+    },
+  };
 }
 
 /**
- * Validate that a URL origin is trusted
+ * Validate that a URL origin is trusted (exact origins or origin patterns)
  */
 export function isTrustedOrigin(url: string, config: AppConfig): boolean {
   try {
@@ -488,6 +1109,15 @@ export function isTrustedOrigin(url: string, config: AppConfig): boolean {
       return true;
     }
 
+    // Check wildcard subdomain / port range patterns
+    for (const entry of config.trustedOrigins) {
+      if (!isOriginPattern(entry)) continue;
+      const pattern = parseOriginPattern(entry);
+      if (pattern && matchesOriginPattern(url, pattern)) {
+        return true;
+      }
+    }
+
     // Allow wildcard localhost trust in development if configured.
     if (config.allowHttpLocalhost && config.trustLocalhostWildcard) {
       const parsedUrl = new URL(url);
@@ -516,10 +1146,74 @@ export function getDefaultConfigPath(): string {
   }
 }
 
+/** Commented starter config written by `--init-config` (JSONC, built-in defaults) */
+const STARTER_CONFIG = `// Switchboard configuration
+//
+// Values below are the built-in defaults. Remove a line to keep the default;
+// environment variables (APP_URL, TRUSTED_ORIGINS, ...) override this file.
+// Reference: docs/runtime-configuration.md
+{
+  // Config format version (used for automatic migrations)
+  "configVersion": ${CURRENT_CONFIG_VERSION},
+
+  // URL loaded in the main window
+  "appUrl": "${DEFAULTS.appUrl}",
+
+  // Origins allowed to navigate in-app and call the bridge.
+  // Defaults to the appUrl origin. Patterns such as "https://*.example.com" are supported.
+  // "trustedOrigins": ["${DEFAULTS.appUrl}"],
+
+  // Local development conveniences (disable in production)
+  "allowHttpLocalhost": ${DEFAULTS.allowHttpLocalhost},
+  "trustLocalhostWildcard": ${DEFAULTS.trustLocalhostWildcard},
+
+  // Window and tray behavior
+  "startInTray": ${DEFAULTS.startInTray},
+  "minimizeToTray": ${DEFAULTS.minimizeToTray},
+  "enableNotifications": ${DEFAULTS.enableNotifications},
+
+  // debug | info | warn | error
+  "logLevel": "${DEFAULTS.logLevel}",
+
+  // Auto-update: channel is stable | beta | alpha, interval in hours (0 disables periodic checks)
+  "enableAutoUpdate": ${DEFAULTS.enableAutoUpdate},
+  "updateChannel": "${DEFAULTS.updateChannel}",
+  "updateCheckInterval": ${DEFAULTS.updateCheckInterval},
+
+  // Deep links (${DEFAULTS.deepLinkScheme}://...)
+  "enableDeepLinks": ${DEFAULTS.enableDeepLinks},
+  "deepLinkScheme": "${DEFAULTS.deepLinkScheme}",
+
+  // Splash screen shown while appUrl loads
+  "splash": {
+    "enabled": ${DEFAULTS.splash.enabled},
+    "appName": "${DEFAULTS.splash.appName}",
+    "loadingText": "${DEFAULTS.splash.loadingText}",
+    "backgroundColor": "${DEFAULTS.splash.backgroundColor}"
+  }
+
+  // Named environments, selected with activeProfile or SWITCHBOARD_PROFILE:
+  // "profiles": { "staging": { "appUrl": "https://staging.example.com" } },
+  // "activeProfile": "staging"
+}
+`;
+
 /**
- * Write a config file with the given values
+ * Get the commented starter config file contents
  */
-export function writeConfigFile(config: Partial<ConfigFile>, filePath?: string): void {
+export function getStarterConfig(): string {
+  return STARTER_CONFIG;
+}
+
+/**
+ * Write a config file with the given values (or raw file contents).
+ * Objects are written as YAML for `.yaml`/`.yml` paths and JSON otherwise.
+ */
+export function writeConfigFile(
+  config: Partial<ConfigFile> | Record<string, unknown> | string,
+  filePath?: string,
+  options: WriteConfigFileOptions = {}
+): void {
   const targetPath = filePath ?? getDefaultConfigPath();
   const dir = path.dirname(targetPath);
 
@@ -527,6 +1221,19 @@ export function writeConfigFile(config: Partial<ConfigFile>, filePath?: string):
     fs.mkdirSync(dir, { recursive: true });
   }
 
-  fs.writeFileSync(targetPath, JSON.stringify(config, null, 2), 'utf-8');
+  if (options.backupPath && fs.existsSync(targetPath)) {
+    fs.copyFileSync(targetPath, options.backupPath);
+    console.log(`Config backup written to: ${options.backupPath}`);
+  }
+
+  let content: string;
+  if (typeof config === 'string') {
+    content = config;
+  } else if (isYamlConfigPath(targetPath)) {
+    content = YAML.stringify(config);
+  } else {
+    content = `${JSON.stringify(config, null, 2)}\n`;
+  }
+  fs.writeFileSync(targetPath, content, 'utf-8');
   console.log(`Config written to: ${targetPath}`);
 }
@@ -0,0 +1,76 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { DeepLinkHistoryEntry } from './types';
+import { appendDeepLinkHistory, isReplayableDeepLink, parseDeepLinkHistory } from './deeplink-history';
+
+function entry(id: string, overrides: Partial<DeepLinkHistoryEntry> = {}): DeepLinkHistoryEntry {
+  return {
+    id,
+    receivedAt: '2026-01-01T00:00:00.000Z',
+    source: 'open-url',
+    url: `switchboard://route?path=/${id}`,
+    target: 'route',
+    outcome: 'executed',
+    ...overrides,
+  };
+}
+
+test('appendDeepLinkHistory keeps newest entries first up to the limit', () => {
+  let history: DeepLinkHistoryEntry[] = [];
+  for (const id of ['a', 'b', 'c', 'd']) {
+    history = appendDeepLinkHistory(history, entry(id), 3);
+  }
+
+  assert.deepEqual(history.map((item) => item.id), ['d', 'c', 'b']);
+});
+
+test('appendDeepLinkHistory does not mutate the existing history', () => {
+  const history = [entry('a')];
+  appendDeepLinkHistory(history, entry('b'));
+
+  assert.deepEqual(history.map((item) => item.id), ['a']);
+});
+
+test('isReplayableDeepLink refuses invalid, declined and rejected entries', () => {
+  assert.equal(isReplayableDeepLink(entry('a')), true);
+  assert.equal(isReplayableDeepLink(entry('b', { outcome: 'forwarded', target: 'custom' })), true);
+  assert.equal(isReplayableDeepLink(entry('c', { outcome: 'invalid', target: null })), false);
+  assert.equal(isReplayableDeepLink(entry('d', { outcome: 'declined' })), false);
+  assert.equal(isReplayableDeepLink(entry('e', { outcome: 'rejected', reason: 'expired' })), false);
+});
+
+test('parseDeepLinkHistory round-trips persisted entries', () => {
+  const history = [
+    entry('c', { outcome: 'dropped', reason: 'rate_limited' }),
+    entry('b', { outcome: 'rejected', reason: 'expired' }),
+    entry('a', { target: null, outcome: 'invalid' }),
+  ];
+
+  assert.deepEqual(parseDeepLinkHistory(JSON.stringify(history)), history);
+});
+
+test('parseDeepLinkHistory drops malformed entries', () => {
+  const raw = JSON.stringify([
+    entry('ok'),
+    entry('bad-source', { source: 'email' as DeepLinkHistoryEntry['source'] }),
+    entry('bad-outcome', { outcome: 'maybe' as DeepLinkHistoryEntry['outcome'] }),
+    entry('bad-time', { receivedAt: 'yesterday' }),
+    { id: 'partial' },
+    'switchboard://reload',
+  ]);
+
+  assert.deepEqual(parseDeepLinkHistory(raw).map((item) => item.id), ['ok']);
+});
+
+test('parseDeepLinkHistory tolerates missing or corrupt values', () => {
+  assert.deepEqual(parseDeepLinkHistory(undefined), []);
+  assert.deepEqual(parseDeepLinkHistory(''), []);
+  assert.deepEqual(parseDeepLinkHistory('{not json'), []);
+  assert.deepEqual(parseDeepLinkHistory('{"id":"a"}'), []);
+});
+
+test('parseDeepLinkHistory applies the limit', () => {
+  const raw = JSON.stringify([entry('c'), entry('b'), entry('a')]);
+
+  assert.deepEqual(parseDeepLinkHistory(raw, 2).map((item) => item.id), ['c', 'b']);
+});
@@ -0,0 +1,70 @@
+/**
+ * Deep link history
+ *
+ * A bounded, newest-first list of received deep links kept in the local
+ * store. URLs are redacted by the caller before they are recorded.
+ */
+
+import type { DeepLinkHistoryEntry, DeepLinkOutcome, DeepLinkSource } from './types';
+
+/** Number of entries kept (older entries are dropped) */
+export const DEEP_LINK_HISTORY_LIMIT = 50;
+
+const SOURCES: readonly DeepLinkSource[] = ['argv', 'second-instance', 'open-url', 'in-page', 'replay'];
+const OUTCOMES: readonly DeepLinkOutcome[] = [
+  'disabled',
+  'invalid',
+  'rejected',
+  'declined',
+  'executed',
+  'forwarded',
+  'dropped',
+];
+
+/**
+ * Add an entry to the front of the history, keeping at most `limit` entries.
+ */
+export function appendDeepLinkHistory(
+  history: readonly DeepLinkHistoryEntry[],
+  entry: DeepLinkHistoryEntry,
+  limit = DEEP_LINK_HISTORY_LIMIT
+): DeepLinkHistoryEntry[] {
+  return [entry, ...history].slice(0, limit);
+}
+
+function isHistoryEntry(value: unknown): value is DeepLinkHistoryEntry {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.receivedAt === 'string' &&
+    !Number.isNaN(Date.parse(entry.receivedAt)) &&
+    SOURCES.includes(entry.source as DeepLinkSource) &&
+    typeof entry.url === 'string' &&
+    (entry.scheme === undefined || typeof entry.scheme === 'string') &&
+    (entry.target === null || typeof entry.target === 'string') &&
+    OUTCOMES.includes(entry.outcome as DeepLinkOutcome) &&
+    (entry.reason === undefined || typeof entry.reason === 'string')
+  );
+}
+
+/**
+ * Whether an entry may be replayed: invalid links have nothing to run, and
+ * links that were declined or failed the signature policy stay refused.
+ */
+export function isReplayableDeepLink(entry: DeepLinkHistoryEntry): boolean {
+  return entry.target !== null && entry.outcome !== 'declined' && entry.outcome !== 'rejected';
+}
+
+/**
+ * Parse the persisted history, dropping malformed entries.
+ */
+export function parseDeepLinkHistory(raw: unknown, limit = DEEP_LINK_HISTORY_LIMIT): DeepLinkHistoryEntry[] {
+  if (typeof raw !== 'string' || raw.length === 0) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isHistoryEntry).slice(0, limit) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,73 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { DeepLinkCommand } from './deeplink';
+import {
+  DeepLinkThrottleOptions,
+  admitDeepLink,
+  coalesceRouteLinks,
+  createDeepLinkThrottleState,
+  getDeepLinkThrottleKey,
+} from './deeplink-throttle';
+
+const OPTIONS: DeepLinkThrottleOptions = { dedupWindowMs: 1000, burst: 3, refillPerSecond: 1 };
+
+test('admitDeepLink drops identical links within the window', () => {
+  const state = createDeepLinkThrottleState();
+
+  assert.equal(admitDeepLink(state, 'switchboard://show', 'show', 0, OPTIONS), null);
+  assert.equal(admitDeepLink(state, 'switchboard://show', 'show', 500, OPTIONS), 'duplicate');
+  assert.equal(admitDeepLink(state, 'switchboard://open', 'open', 500, OPTIONS), null);
+  // Duplicates do not extend the window.
+  assert.equal(admitDeepLink(state, 'switchboard://show', 'show', 1000, OPTIONS), null);
+});
+
+test('admitDeepLink limits each target with a token bucket', () => {
+  const state = createDeepLinkThrottleState();
+  const link = (n: number) => `switchboard://route/item/${n}`;
+
+  assert.equal(admitDeepLink(state, link(1), 'route', 0, OPTIONS), null);
+  assert.equal(admitDeepLink(state, link(2), 'route', 0, OPTIONS), null);
+  assert.equal(admitDeepLink(state, link(3), 'route', 0, OPTIONS), null);
+  assert.equal(admitDeepLink(state, link(4), 'route', 0, OPTIONS), 'rate_limited');
+  // Other targets have their own bucket.
+  assert.equal(admitDeepLink(state, 'switchboard://reload', 'reload', 0, OPTIONS), null);
+
+  // One token comes back per second, up to the burst size.
+  assert.equal(admitDeepLink(state, link(5), 'route', 1000, OPTIONS), null);
+  assert.equal(admitDeepLink(state, link(6), 'route', 1000, OPTIONS), 'rate_limited');
+  assert.equal(admitDeepLink(state, link(7), 'route', 60_000, OPTIONS), null);
+  assert.equal(state.buckets.get('route')?.tokens, 2);
+});
+
+test('getDeepLinkThrottleKey gives each custom action its own bucket', () => {
+  const custom = (action: string): DeepLinkCommand => ({ kind: 'custom', action, path: '/', params: {} });
+
+  assert.equal(getDeepLinkThrottleKey({ kind: 'route', path: '/a' }), 'route');
+  assert.equal(getDeepLinkThrottleKey({ kind: 'action', action: 'reload' }), 'reload');
+  assert.equal(getDeepLinkThrottleKey(custom('incident')), 'custom:incident');
+  assert.notEqual(getDeepLinkThrottleKey(custom('incident')), getDeepLinkThrottleKey(custom('trace')));
+});
+
+test('admitDeepLink does not count rate-limited links as seen', () => {
+  const state = createDeepLinkThrottleState();
+  const options = { ...OPTIONS, burst: 1 };
+
+  assert.equal(admitDeepLink(state, 'switchboard://reload?n=1', 'reload', 0, options), null);
+  assert.equal(admitDeepLink(state, 'switchboard://reload?n=2', 'reload', 100, options), 'rate_limited');
+  assert.equal(admitDeepLink(state, 'switchboard://reload?n=2', 'reload', 1200, options), null);
+  assert.deepEqual([...state.lastSeen.keys()], ['switchboard://reload?n=2']);
+});
+
+test('coalesceRouteLinks keeps only the last route link', () => {
+  const links: Array<{ id: number; parsed: DeepLinkCommand }> = [
+    { id: 1, parsed: { kind: 'route', path: '/a' } },
+    { id: 2, parsed: { kind: 'action', action: 'show' } },
+    { id: 3, parsed: { kind: 'route', path: '/b' } },
+    { id: 4, parsed: { kind: 'profile', name: 'staging' } },
+  ];
+
+  const { kept, coalesced } = coalesceRouteLinks(links);
+  assert.deepEqual(kept.map((link) => link.id), [2, 3, 4]);
+  assert.deepEqual(coalesced.map((link) => link.id), [1]);
+  assert.deepEqual(coalesceRouteLinks([links[1]]), { kept: [links[1]], coalesced: [] });
+});
@@ -0,0 +1,96 @@
+/**
+ * Deep link throttling
+ *
+ * `second-instance` and `open-url` can deliver the same link more than once,
+ * and a script can flood the protocol handler. Identical links are dropped
+ * within a short window, each link target (each custom action on its own)
+ * has a token bucket, and bursts of
+ * `route` links collapse to the last one.
+ */
+
+import { DeepLinkCommand, getDeepLinkTarget } from './deeplink';
+
+export interface DeepLinkThrottleOptions {
+  /** Identical links within this window are dropped, in milliseconds */
+  dedupWindowMs: number;
+  /** Links a target may run back to back */
+  burst: number;
+  /** Tokens added back per second, per target */
+  refillPerSecond: number;
+}
+
+export const DEFAULT_DEEP_LINK_THROTTLE: DeepLinkThrottleOptions = {
+  dedupWindowMs: 2000,
+  burst: 5,
+  refillPerSecond: 1,
+};
+
+/** How long a `route` link waits for a newer one before it runs */
+export const DEEP_LINK_ROUTE_COALESCE_MS = 250;
+
+export type DeepLinkDropReason = 'duplicate' | 'rate_limited' | 'coalesced';
+
+export interface DeepLinkThrottleState {
+  /** When each admitted link was last seen */
+  lastSeen: Map<string, number>;
+  /** Token bucket per link target */
+  buckets: Map<string, { tokens: number; updatedAt: number }>;
+}
+
+export function createDeepLinkThrottleState(): DeepLinkThrottleState {
+  return { lastSeen: new Map(), buckets: new Map() };
+}
+
+/**
+ * Token bucket key of a link: its target, or `custom:<action>` so that one
+ * noisy custom action cannot starve the others.
+ */
+export function getDeepLinkThrottleKey(command: DeepLinkCommand): string {
+  return command.kind === 'custom' ? `custom:${command.action}` : getDeepLinkTarget(command);
+}
+
+/**
+ * Check whether a link may run, updating the throttle state.
+ * Returns why the link should be dropped, or null when it may run.
+ *
+ * @param url Link exactly as received (the de-duplication key)
+ * @param target Bucket key from getDeepLinkThrottleKey
+ * @param now Current time in milliseconds
+ */
+export function admitDeepLink(
+  state: DeepLinkThrottleState,
+  url: string,
+  target: string,
+  now: number,
+  options: DeepLinkThrottleOptions = DEFAULT_DEEP_LINK_THROTTLE
+): DeepLinkDropReason | null {
+  // Only admitted links are remembered, so the map stays as small as the bucket allows.
+  for (const [seenUrl, seenAt] of state.lastSeen) {
+    if (now - seenAt >= options.dedupWindowMs) state.lastSeen.delete(seenUrl);
+  }
+  if (state.lastSeen.has(url)) return 'duplicate';
+
+  const bucket = state.buckets.get(target) ?? { tokens: options.burst, updatedAt: now };
+  const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(options.burst, bucket.tokens + elapsedSeconds * options.refillPerSecond);
+  bucket.updatedAt = now;
+  state.buckets.set(target, bucket);
+  if (bucket.tokens < 1) return 'rate_limited';
+
+  bucket.tokens -= 1;
+  state.lastSeen.set(url, now);
+  return null;
+}
+
+/**
+ * Keep only the last `route` link of a batch; other links keep their order.
+ */
+export function coalesceRouteLinks<T extends { parsed: DeepLinkCommand }>(
+  links: readonly T[]
+): { kept: T[]; coalesced: T[] } {
+  const lastRoute = [...links].reverse().find((link) => link.parsed.kind === 'route');
+  return {
+    kept: links.filter((link) => link.parsed.kind !== 'route' || link === lastRoute),
+    coalesced: links.filter((link) => link.parsed.kind === 'route' && link !== lastRoute),
+  };
+}
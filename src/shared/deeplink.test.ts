@@ -1,6 +1,23 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { extractDeepLinkFromArgv, parseDeepLink } from './deeplink';
+import * as crypto from 'crypto';
+import {
+  DeepLinkCommand,
+  DeepLinkKeys,
+  buildDeepLink,
+  describeDeepLinkCommand,
+  extractDeepLinkFromArgv,
+  getCustomDeepLinkFallbackPath,
+  getDeepLinkConfirmationAction,
+  getDeepLinkScheme,
+  getRouteForPageUrl,
+  isCustomDeepLinkActionName,
+  isRouteAllowed,
+  parseCustomDeepLink,
+  parseDeepLink,
+  parseDeepLinkDecisions,
+  verifyDeepLinkSignature,
+} from './deeplink';
 
 test('parseDeepLink parses supported action deep links', () => {
   const parsed = parseDeepLink('switchboard://reload', 'switchboard');
@@ -30,3 +47,292 @@ test('extractDeepLinkFromArgv returns first matching deep link', () => {
   );
   assert.equal(link, 'switchboard://open');
 });
+
+test('extractDeepLinkFromArgv and getDeepLinkScheme match any configured scheme', () => {
+  const schemes = ['switchboard', 'switchboard-beta', 'sb'];
+  assert.equal(
+    extractDeepLinkFromArgv(['--flag', 'other://open', 'SB://route/x'], schemes),
+    'SB://route/x'
+  );
+  assert.equal(extractDeepLinkFromArgv(['switchboard-alpha://open'], schemes), null);
+
+  assert.equal(getDeepLinkScheme('switchboard-beta://route/traces', schemes), 'switchboard-beta');
+  assert.equal(getDeepLinkScheme('Switchboard://open', schemes), 'switchboard');
+  assert.equal(getDeepLinkScheme('sbx://open', schemes), null);
+  assert.deepEqual(parseDeepLink('switchboard-beta://route/traces', 'switchboard-beta'), {
+    kind: 'route',
+    path: '/traces',
+  });
+});
+
+test('parseDeepLink parses profile deep links', () => {
+  assert.deepEqual(parseDeepLink('switchboard://profile/staging', 'switchboard'), {
+    kind: 'profile',
+    name: 'staging',
+  });
+  assert.equal(parseDeepLink('switchboard://profile/', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://profile/a%20b', 'switchboard'), null);
+});
+
+test('parseDeepLink parses connect deep links', () => {
+  assert.deepEqual(
+    parseDeepLink(
+      'switchboard://connect?url=https%3A%2F%2Fstaging.switchboard.internal&route=%2Ftraces%2Fabc%3Fx%3D1',
+      'switchboard'
+    ),
+    { kind: 'connect', url: 'https://staging.switchboard.internal/', route: '/traces/abc?x=1' }
+  );
+  assert.deepEqual(parseDeepLink('switchboard://connect?url=http://localhost:3000/app', 'switchboard'), {
+    kind: 'connect',
+    url: 'http://localhost:3000/app',
+  });
+});
+
+test('parseDeepLink rejects connect links with unsafe servers or routes', () => {
+  assert.equal(parseDeepLink('switchboard://connect', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=not-a-url', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=file:///etc/passwd', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=https://user:pw@evil.example', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=https://a.example&route=traces', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=https://a.example&route=//evil.example', 'switchboard'), null);
+  assert.equal(parseDeepLink('switchboard://connect?url=https://a.example&route=/%5Cevil.example', 'switchboard'), null);
+});
+
+const NOW = Date.UTC(2026, 0, 1) / 1000;
+const HMAC_SECRET = 'backend-shared-secret-0123456789';
+const POLICY = { requireSignatureFor: ['quit', 'route'], maxLifetimeSeconds: 300 };
+
+function signHmac(link: string, secret = HMAC_SECRET): string {
+  const signature = crypto.createHmac('sha256', secret).update(link).digest('base64url');
+  return `${link}${link.includes('?') ? '&' : '?'}sig=${signature}`;
+}
+
+function verify(link: string, keys: Partial<DeepLinkKeys> = {}, policy = POLICY) {
+  const command = parseDeepLink(link, 'switchboard');
+  assert.ok(command);
+  return verifyDeepLinkSignature(link, command, {
+    policy,
+    keys: { hmacSecrets: [HMAC_SECRET], ed25519PublicKeys: [], ...keys },
+    now: NOW * 1000,
+  });
+}
+
+test('verifyDeepLinkSignature accepts HMAC-signed links within their lifetime', () => {
+  assert.deepEqual(verify(signHmac(`switchboard://quit?exp=${NOW + 60}`)), {
+    ok: true,
+    signed: true,
+    expiresAt: NOW + 60,
+  });
+});
+
+test('verifyDeepLinkSignature accepts Ed25519-signed links', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const link = `switchboard://route/admin?tab=users&exp=${NOW + 60}`;
+  const signature = crypto.sign(null, Buffer.from(link), privateKey).toString('base64url');
+  const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  const raw = publicKey.export({ type: 'spki', format: 'der' }).subarray(-32).toString('base64');
+
+  assert.equal(verify(`${link}&sig=${signature}`, { hmacSecrets: [], ed25519PublicKeys: [pem] }).ok, true);
+  assert.equal(verify(`${link}&sig=${signature}`, { hmacSecrets: [], ed25519PublicKeys: [raw] }).ok, true);
+});
+
+test('verifyDeepLinkSignature rejects missing, tampered and expired signatures', () => {
+  const signed = signHmac(`switchboard://route/admin?exp=${NOW + 60}`);
+
+  assert.deepEqual(verify('switchboard://quit'), { ok: false, reason: 'signature_missing' });
+  assert.deepEqual(verify(signed.replace('/admin', '/billing')), { ok: false, reason: 'signature_invalid' });
+  assert.deepEqual(verify(signHmac(`switchboard://quit?exp=${NOW + 60}`, 'another-secret-0123456789')), {
+    ok: false,
+    reason: 'signature_invalid',
+  });
+  assert.deepEqual(verify(signHmac(`switchboard://quit?exp=${NOW - 1}`)), { ok: false, reason: 'expired' });
+  assert.deepEqual(verify(signHmac(`switchboard://quit?exp=${NOW + 3600}`)), { ok: false, reason: 'expiry_too_far' });
+  assert.deepEqual(verify(signHmac('switchboard://quit')), { ok: false, reason: 'expiry_missing' });
+  assert.deepEqual(verify(signHmac('switchboard://quit?exp=soon')), { ok: false, reason: 'expiry_invalid' });
+  assert.deepEqual(verify(signHmac(`switchboard://quit?exp=${NOW + 60}`), { hmacSecrets: [] }), {
+    ok: false,
+    reason: 'no_keys',
+  });
+});
+
+test('verifyDeepLinkSignature only requires signatures for listed link kinds', () => {
+  assert.deepEqual(verify('switchboard://open'), { ok: true, signed: false, expiresAt: undefined });
+  assert.deepEqual(verify('switchboard://open', {}, { ...POLICY, requireSignatureFor: ['*'] }), {
+    ok: false,
+    reason: 'signature_missing',
+  });
+  // A signature that is present is still checked.
+  assert.deepEqual(verify('switchboard://open?exp=1&sig=AAAA'), { ok: false, reason: 'expired' });
+  assert.deepEqual(verify(`switchboard://open?sig=AAAA`), { ok: false, reason: 'signature_invalid' });
+});
+
+test('parseDeepLink strips signature parameters from routes and verifies when asked', () => {
+  const signed = signHmac(`switchboard://route/admin/users?sort=desc&exp=${NOW + 60}`);
+  assert.deepEqual(parseDeepLink(`${signed}#active`, 'switchboard'), {
+    kind: 'route',
+    path: '/admin/users?sort=desc#active',
+  });
+
+  const options = { policy: POLICY, keys: { hmacSecrets: [HMAC_SECRET], ed25519PublicKeys: [] }, now: NOW * 1000 };
+  assert.deepEqual(parseDeepLink(signed, 'switchboard', options), { kind: 'route', path: '/admin/users?sort=desc' });
+  assert.equal(parseDeepLink('switchboard://route/admin', 'switchboard', options), null);
+});
+
+test('isRouteAllowed matches path prefixes on segment boundaries', () => {
+  const allowlist = ['/traces', '/dashboards/'];
+  assert.equal(isRouteAllowed('/traces', allowlist), true);
+  assert.equal(isRouteAllowed('/traces/abc?span=1#top', allowlist), true);
+  assert.equal(isRouteAllowed('/dashboards/main', allowlist), true);
+  assert.equal(isRouteAllowed('/traces-old', allowlist), false);
+  assert.equal(isRouteAllowed('/admin?next=/traces', allowlist), false);
+  assert.equal(isRouteAllowed('/anything', ['/']), true);
+});
+
+test('getDeepLinkConfirmationAction asks for quit, reload and routes outside the allowlist', () => {
+  const allowlist = ['/traces'];
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'action', action: 'quit' }, allowlist), 'quit');
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'action', action: 'reload' }, allowlist), 'reload');
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'action', action: 'open' }, allowlist), null);
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'route', path: '/traces/abc' }, allowlist), null);
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'route', path: '/admin' }, allowlist), 'route');
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'profile', name: 'staging' }, allowlist), null);
+  // connect links ask through their own prompt.
+  assert.equal(getDeepLinkConfirmationAction({ kind: 'connect', url: 'https://a.example/' }, allowlist), null);
+});
+
+test('describeDeepLinkCommand and parseDeepLinkDecisions', () => {
+  assert.equal(describeDeepLinkCommand({ kind: 'action', action: 'quit' }), 'Quit the app');
+  assert.equal(describeDeepLinkCommand({ kind: 'route', path: '/admin?tab=1' }), 'Open /admin?tab=1');
+  assert.equal(describeDeepLinkCommand({ kind: 'profile', name: 'staging' }), 'Switch to profile "staging"');
+  assert.equal(
+    describeDeepLinkCommand({ kind: 'connect', url: 'https://staging.example/app', route: '/traces' }),
+    'Connect to https://staging.example and open /traces'
+  );
+
+  assert.deepEqual(parseDeepLinkDecisions('{"quit":"allow","route":"deny","open":"allow","reload":1}'), {
+    quit: 'allow',
+    route: 'deny',
+  });
+  assert.deepEqual(parseDeepLinkDecisions('not json'), {});
+  assert.deepEqual(parseDeepLinkDecisions(undefined), {});
+});
+
+test('parseCustomDeepLink parses registered custom actions only', () => {
+  assert.deepEqual(parseCustomDeepLink('switchboard://incident/42?ack=1&exp=9&sig=abc', 'switchboard', ['incident']), {
+    kind: 'custom',
+    action: 'incident',
+    path: '/42',
+    params: { ack: '1' },
+  });
+  assert.deepEqual(parseCustomDeepLink('switchboard://Incident', 'switchboard', ['incident']), {
+    kind: 'custom',
+    action: 'incident',
+    path: '/',
+    params: {},
+  });
+  assert.equal(parseCustomDeepLink('switchboard://incident/42', 'switchboard', []), null);
+  assert.equal(parseCustomDeepLink('switchboard://quit', 'switchboard', ['quit']), null);
+  assert.equal(parseCustomDeepLink('other://incident/42', 'switchboard', ['incident']), null);
+  // Built-in links keep parsing through parseDeepLink only.
+  assert.equal(parseDeepLink('switchboard://incident/42', 'switchboard'), null);
+});
+
+test('isCustomDeepLinkActionName rejects built-in and malformed names', () => {
+  assert.equal(isCustomDeepLinkActionName('incident'), true);
+  assert.equal(isCustomDeepLinkActionName('on-call'), true);
+  assert.equal(isCustomDeepLinkActionName('route'), false);
+  assert.equal(isCustomDeepLinkActionName('connect'), false);
+  assert.equal(isCustomDeepLinkActionName('Incident'), false);
+  assert.equal(isCustomDeepLinkActionName('9lives'), false);
+});
+
+test('getCustomDeepLinkFallbackPath appends the link path and parameters', () => {
+  const link = { kind: 'custom' as const, action: 'incident', path: '/42', params: { ack: '1' } };
+  assert.equal(getCustomDeepLinkFallbackPath(link, '/incidents/'), '/incidents/42?ack=1');
+  assert.equal(getCustomDeepLinkFallbackPath({ ...link, path: '/', params: {} }, '/incidents'), '/incidents');
+  assert.equal(getCustomDeepLinkFallbackPath({ ...link, path: '/', params: {} }, '/'), '/');
+});
+
+// Seeded generator so property test failures are reproducible.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const CUSTOM_ACTIONS = ['incident', 'on-call', 'x1'];
+
+function generateCommand(random: () => number): DeepLinkCommand {
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const text = (alphabet: string, min: number, max: number): string => {
+    const length = min + Math.floor(random() * (max - min + 1));
+    return Array.from({ length }, () => pick([...alphabet])).join('');
+  };
+  const segment = () => (random() < 0.1 ? '%20' : '') + text('abcXYZ019-_~', 1, 8);
+  const path = () => `/${Array.from({ length: Math.floor(random() * 4) }, segment).join('/')}`;
+  const route = () => {
+    const params = Array.from({ length: Math.floor(random() * 3) }, () => `${pick(['q', 'tab', 'page'])}=${segment()}`);
+    return `${path()}${params.length > 0 ? `?${params.join('&')}` : ''}${random() < 0.3 ? `#${segment()}` : ''}`;
+  };
+
+  switch (pick(['action', 'route', 'profile', 'connect', 'custom'] as const)) {
+    case 'action':
+      return { kind: 'action', action: pick(['open', 'show', 'reload', 'quit', 'settings'] as const) };
+    case 'route':
+      return { kind: 'route', path: route() };
+    case 'profile': {
+      const name = text('abcXYZ019_.-', 1, 12);
+      return { kind: 'profile', name: /^\.{1,2}$/.test(name) ? `${name}a` : name };
+    }
+    case 'connect': {
+      const url = `${pick(['https', 'http'])}://${text('abc', 1, 6)}.example${pick(['', ':8443'])}${path()}`;
+      return random() < 0.5 ? { kind: 'connect', url } : { kind: 'connect', url, route: route() };
+    }
+    case 'custom': {
+      const params: Record<string, string> = {};
+      for (let i = Math.floor(random() * 4); i > 0; i--) {
+        params[pick(['ack', 'id', 'note', 'from'])] = text('ab1 &=?#/+%é', 0, 10);
+      }
+      return { kind: 'custom', action: pick(CUSTOM_ACTIONS), path: path(), params };
+    }
+  }
+}
+
+test('buildDeepLink round-trips with the parsers (seeded property test)', () => {
+  for (const seed of [1, 42, 2026]) {
+    const random = createRandom(seed);
+    for (let i = 0; i < 300; i++) {
+      const command = generateCommand(random);
+      const link = buildDeepLink(command, 'switchboard');
+      const parsed = command.kind === 'custom'
+        ? parseCustomDeepLink(link, 'switchboard', CUSTOM_ACTIONS)
+        : parseDeepLink(link, 'switchboard');
+      assert.deepEqual(parsed, command, `seed ${seed}, case ${i}: ${link}`);
+      assert.equal(buildDeepLink(parsed as DeepLinkCommand, 'switchboard'), link);
+    }
+  }
+});
+
+test('buildDeepLink normalizes the scheme and rejects unrepresentable commands', () => {
+  assert.equal(buildDeepLink({ kind: 'route', path: '/traces/abc?x=1' }, 'Switchboard:'), 'switchboard://route/traces/abc?x=1');
+  assert.throws(() => buildDeepLink({ kind: 'route', path: 'traces' }, 'switchboard'), /must start with/);
+  assert.throws(() => buildDeepLink({ kind: 'profile', name: '..' }, 'switchboard'), /Invalid profile name/);
+  assert.throws(
+    () => buildDeepLink({ kind: 'custom', action: 'route', path: '/', params: {} }, 'switchboard'),
+    /Invalid custom deep link action/
+  );
+});
+
+test('getRouteForPageUrl only links pages on the APP_URL origin', () => {
+  const appUrl = 'https://switchboard.internal/app/';
+  assert.equal(getRouteForPageUrl('https://switchboard.internal/app/traces?id=1#span', appUrl), '/app/traces?id=1#span');
+  assert.equal(getRouteForPageUrl('https://switchboard.internal', appUrl), '/');
+  assert.equal(getRouteForPageUrl('https://other.internal/app/traces', appUrl), null);
+  assert.equal(getRouteForPageUrl('data:text/html,fallback', appUrl), null);
+  assert.equal(getRouteForPageUrl('not a url', appUrl), null);
+});
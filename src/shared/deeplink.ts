@@ -1,13 +1,262 @@
+import * as crypto from 'crypto';
+
 export type DeepLinkAction = 'open' | 'show' | 'reload' | 'quit' | 'settings';
 
 export type DeepLinkCommand =
   | { kind: 'action'; action: DeepLinkAction }
-  | { kind: 'route'; path: string };
+  | { kind: 'route'; path: string }
+  | { kind: 'profile'; name: string }
+  | { kind: 'connect'; url: string; route?: string }
+  | { kind: 'custom'; action: string; path: string; params: Record<string, string> };
+
+/** Link hosts handled by the app itself; custom actions cannot reuse them */
+export const BUILT_IN_DEEP_LINK_ACTIONS = [
+  'open',
+  'show',
+  'reload',
+  'quit',
+  'settings',
+  'route',
+  'profile',
+  'connect',
+] as const;
+
+const CUSTOM_ACTION_PATTERN = /^[a-z][a-z0-9-]{0,63}$/;
+
+/** Actions that ask the user before running (routes only outside the allowlist) */
+export type DeepLinkConfirmationAction = 'quit' | 'reload' | 'route';
+
+/** Remembered answers to the confirmation prompt, per action */
+export type DeepLinkDecisions = Partial<Record<DeepLinkConfirmationAction, 'allow' | 'deny'>>;
+
+const CONFIRMATION_ACTIONS: readonly DeepLinkConfirmationAction[] = ['quit', 'reload', 'route'];
+
+/** Link kinds that `deepLinkSigning.requireSignatureFor` may list (`*` for all) */
+export const DEEP_LINK_SIGNING_TARGETS = [
+  'open',
+  'show',
+  'reload',
+  'quit',
+  'settings',
+  'route',
+  'profile',
+  'connect',
+  'custom',
+  '*',
+] as const;
+
+/** Query parameters reserved for signed links (never forwarded to routes) */
+const SIGNATURE_PARAM = 'sig';
+const EXPIRY_PARAM = 'exp';
+
+export interface DeepLinkSigningPolicy {
+  /** Link kinds that must carry a valid signature */
+  requireSignatureFor: string[];
+  /** Furthest `exp` may be in the future, in seconds */
+  maxLifetimeSeconds: number;
+}
+
+export interface DeepLinkKeys {
+  /** Shared HMAC-SHA256 secrets */
+  hmacSecrets: string[];
+  /** Ed25519 public keys (PEM, or base64 of the raw 32-byte key or SPKI DER) */
+  ed25519PublicKeys: string[];
+}
+
+export interface DeepLinkVerifyOptions {
+  policy: DeepLinkSigningPolicy;
+  keys: DeepLinkKeys;
+  /** Current time in milliseconds (defaults to Date.now()) */
+  now?: number;
+}
+
+export type DeepLinkRejection =
+  | 'signature_missing'
+  | 'signature_invalid'
+  | 'no_keys'
+  | 'expiry_missing'
+  | 'expiry_invalid'
+  | 'expired'
+  | 'expiry_too_far';
+
+export type DeepLinkVerification =
+  | { ok: true; signed: boolean; expiresAt?: number }
+  | { ok: false; reason: DeepLinkRejection };
 
 function normalizeScheme(scheme: string): string {
   return scheme.replace(/:$/, '').toLowerCase();
 }
 
+/**
+ * Split a link into the part before the query, query parameters and hash,
+ * keeping each parameter exactly as written.
+ */
+function splitLink(url: string): { base: string; params: string[]; hash: string } {
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutHash.indexOf('?');
+  if (queryIndex === -1) return { base: withoutHash, params: [], hash };
+  const query = withoutHash.slice(queryIndex + 1);
+  return {
+    base: withoutHash.slice(0, queryIndex),
+    params: query.length > 0 ? query.split('&') : [],
+    hash,
+  };
+}
+
+function joinLink(base: string, params: string[], hash: string): string {
+  return `${base}${params.length > 0 ? `?${params.join('&')}` : ''}${hash}`;
+}
+
+function paramName(param: string): string {
+  const name = param.split('=')[0];
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function withoutParams(url: string, names: readonly string[]): string {
+  const { base, params, hash } = splitLink(url);
+  return joinLink(base, params.filter((param) => !names.includes(paramName(param))), hash);
+}
+
+/**
+ * The string a deep link signature covers: the link exactly as written with
+ * the `sig` parameter removed.
+ */
+export function getDeepLinkSigningPayload(url: string): string {
+  return withoutParams(url, [SIGNATURE_PARAM]);
+}
+
+/**
+ * Name used by `requireSignatureFor` for a parsed link.
+ */
+export function getDeepLinkTarget(command: DeepLinkCommand): string {
+  return command.kind === 'action' ? command.action : command.kind;
+}
+
+/**
+ * Check whether the signing policy requires a signature for a parsed link.
+ */
+export function requiresDeepLinkSignature(command: DeepLinkCommand, policy: DeepLinkSigningPolicy): boolean {
+  return policy.requireSignatureFor.includes('*') || policy.requireSignatureFor.includes(getDeepLinkTarget(command));
+}
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo; the raw 32-byte key follows.
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Parse an Ed25519 public key from PEM or base64 (raw 32 bytes or SPKI DER).
+ * Returns null for anything that is not an Ed25519 public key.
+ */
+export function parseEd25519PublicKey(value: string): crypto.KeyObject | null {
+  try {
+    const trimmed = value.trim();
+    let key: crypto.KeyObject;
+    if (trimmed.startsWith('-----BEGIN')) {
+      key = crypto.createPublicKey(trimmed);
+    } else {
+      const der = Buffer.from(trimmed, 'base64');
+      const spki = der.length === 32 ? Buffer.concat([ED25519_SPKI_PREFIX, der]) : der;
+      key = crypto.createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    }
+    return key.asymmetricKeyType === 'ed25519' ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeSignature(value: string): Buffer | null {
+  // base64url (preferred) or standard base64
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) return null;
+  const signature = Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+  return signature.length > 0 ? signature : null;
+}
+
+function isValidSignature(payload: string, signature: Buffer, keys: DeepLinkKeys): boolean {
+  const data = Buffer.from(payload, 'utf-8');
+
+  for (const secret of keys.hmacSecrets) {
+    const expected = crypto.createHmac('sha256', secret).update(data).digest();
+    if (expected.length === signature.length && crypto.timingSafeEqual(expected, signature)) {
+      return true;
+    }
+  }
+
+  for (const publicKey of keys.ed25519PublicKeys) {
+    const key = parseEd25519PublicKey(publicKey);
+    if (!key) continue;
+    try {
+      if (crypto.verify(null, data, key, signature)) return true;
+    } catch {
+      // Wrong signature length for this key type.
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Verify the `sig` and `exp` parameters of a parsed deep link against the
+ * signing policy.
+ *
+ * - Links the policy does not cover pass unsigned; a signature that is
+ *   present is still checked when keys are configured.
+ * - Signed links must carry `exp` (Unix seconds) no further ahead than
+ *   `maxLifetimeSeconds`.
+ * - An `exp` in the past rejects the link, signed or not.
+ */
+export function verifyDeepLinkSignature(
+  url: string,
+  command: DeepLinkCommand,
+  options: DeepLinkVerifyOptions
+): DeepLinkVerification {
+  const { policy, keys } = options;
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  const required = requiresDeepLinkSignature(command, policy);
+  const { params } = splitLink(url);
+  const readParam = (name: string): string | undefined => {
+    const param = params.find((entry) => paramName(entry) === name);
+    if (param === undefined) return undefined;
+    try {
+      return decodeURIComponent(param.slice(name.length + 1));
+    } catch {
+      return '';
+    }
+  };
+
+  const rawExpiry = readParam(EXPIRY_PARAM);
+  let expiresAt: number | undefined;
+  if (rawExpiry !== undefined) {
+    if (!/^\d{1,12}$/.test(rawExpiry)) return { ok: false, reason: 'expiry_invalid' };
+    expiresAt = Number(rawExpiry);
+    if (expiresAt < nowSeconds) return { ok: false, reason: 'expired' };
+  }
+
+  const rawSignature = readParam(SIGNATURE_PARAM);
+  const hasKeys = keys.hmacSecrets.length > 0 || keys.ed25519PublicKeys.length > 0;
+  if (rawSignature === undefined) {
+    return required ? { ok: false, reason: 'signature_missing' } : { ok: true, signed: false, expiresAt };
+  }
+  if (!hasKeys) {
+    return required ? { ok: false, reason: 'no_keys' } : { ok: true, signed: false, expiresAt };
+  }
+
+  const signature = decodeSignature(rawSignature);
+  if (!signature || !isValidSignature(getDeepLinkSigningPayload(url), signature, keys)) {
+    return { ok: false, reason: 'signature_invalid' };
+  }
+
+  // Signatures without an expiry could be replayed forever.
+  if (expiresAt === undefined) return { ok: false, reason: 'expiry_missing' };
+  if (expiresAt > nowSeconds + policy.maxLifetimeSeconds) return { ok: false, reason: 'expiry_too_far' };
+
+  return { ok: true, signed: true, expiresAt };
+}
+
 /**
  * Parse and validate supported deep links.
  *
@@ -18,8 +267,141 @@ function normalizeScheme(scheme: string): string {
  * - switchboard://settings
  * - switchboard://quit
  * - switchboard://route/<path>?query#hash
+ * - switchboard://profile/<name>
+ * - switchboard://connect?url=<http(s) server URL>&route=<path>
+ *
+ * Any link may carry `exp` and `sig` parameters (see verifyDeepLinkSignature);
+ * they are stripped from route paths. When `verify` is given, links failing
+ * signature verification also return null.
+ */
+export function parseDeepLink(
+  url: string,
+  scheme: string,
+  verify?: DeepLinkVerifyOptions
+): DeepLinkCommand | null {
+  const command = parseDeepLinkCommand(url, scheme);
+  if (!command || !verify) return command;
+  return verifyDeepLinkSignature(url, command, verify).ok ? command : null;
+}
+
+/**
+ * Check whether a route path falls under one of the allowlisted path prefixes.
+ * `/traces` allows `/traces`, `/traces/abc` and `/traces?x=1`, not `/traces-old`.
+ */
+export function isRouteAllowed(routePath: string, allowlist: readonly string[]): boolean {
+  const pathname = routePath.split(/[?#]/)[0];
+  return allowlist.some((prefix) => {
+    const base = prefix.replace(/\/+$/, '');
+    return base === '' || pathname === base || pathname.startsWith(`${base}/`);
+  });
+}
+
+/**
+ * Get the confirmation action a parsed link needs, or null when it may run
+ * without asking.
+ */
+export function getDeepLinkConfirmationAction(
+  command: DeepLinkCommand,
+  routeAllowlist: readonly string[]
+): DeepLinkConfirmationAction | null {
+  if (command.kind === 'action' && (command.action === 'quit' || command.action === 'reload')) {
+    return command.action;
+  }
+  if (command.kind === 'route' && !isRouteAllowed(command.path, routeAllowlist)) {
+    return 'route';
+  }
+  return null;
+}
+
+/**
+ * Human-readable description of a parsed link for confirmation prompts.
+ */
+export function describeDeepLinkCommand(command: DeepLinkCommand): string {
+  switch (command.kind) {
+    case 'action':
+      return command.action === 'quit'
+        ? 'Quit the app'
+        : command.action === 'reload'
+          ? 'Reload the app'
+          : `${command.action[0].toUpperCase()}${command.action.slice(1)} the app`;
+    case 'route':
+      return `Open ${command.path}`;
+    case 'profile':
+      return `Switch to profile "${command.name}"`;
+    case 'connect':
+      return `Connect to ${new URL(command.url).origin}${command.route ? ` and open ${command.route}` : ''}`;
+    case 'custom':
+      return `Send "${command.action}" link ${command.path} to the app`;
+  }
+}
+
+/**
+ * Check whether a name can be registered as a custom deep link action.
+ */
+export function isCustomDeepLinkActionName(name: string): boolean {
+  return CUSTOM_ACTION_PATTERN.test(name) && !(BUILT_IN_DEEP_LINK_ACTIONS as readonly string[]).includes(name);
+}
+
+/**
+ * Parse a link for one of the registered custom actions
+ * (e.g. `switchboard://incident/42?ack=1`). Returns null for anything else.
+ */
+export function parseCustomDeepLink(
+  url: string,
+  scheme: string,
+  actions: readonly string[]
+): DeepLinkCommand | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol.toLowerCase() !== `${normalizeScheme(scheme)}:`) return null;
+
+    const action = parsed.hostname.toLowerCase();
+    if (!isCustomDeepLinkActionName(action) || !actions.includes(action)) return null;
+
+    const params: Record<string, string> = {};
+    for (const [key, value] of parsed.searchParams) {
+      if (key !== SIGNATURE_PARAM && key !== EXPIRY_PARAM) params[key] = value;
+    }
+    return { kind: 'custom', action, path: parsed.pathname || '/', params };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Route used when the web app does not handle a custom link: the link path
+ * and parameters appended to the action's `fallbackRoute`.
+ */
+export function getCustomDeepLinkFallbackPath(
+  command: Extract<DeepLinkCommand, { kind: 'custom' }>,
+  fallbackRoute: string
+): string {
+  const base = fallbackRoute.replace(/\/+$/, '');
+  const path = command.path === '/' ? '' : command.path;
+  const query = new URLSearchParams(command.params).toString();
+  return `${base}${path}${query ? `?${query}` : ''}` || '/';
+}
+
+/**
+ * Parse remembered confirmation answers, dropping anything unexpected.
  */
-export function parseDeepLink(url: string, scheme: string): DeepLinkCommand | null {
+export function parseDeepLinkDecisions(raw: unknown): DeepLinkDecisions {
+  if (typeof raw !== 'string' || raw.length === 0) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    const decisions: DeepLinkDecisions = {};
+    for (const action of CONFIRMATION_ACTIONS) {
+      const value = (parsed as Record<string, unknown>)[action];
+      if (value === 'allow' || value === 'deny') decisions[action] = value;
+    }
+    return decisions;
+  } catch {
+    return {};
+  }
+}
+
+function parseDeepLinkCommand(url: string, scheme: string): DeepLinkCommand | null {
   try {
     const parsed = new URL(url);
     const expectedProtocol = `${normalizeScheme(scheme)}:`;
@@ -38,21 +420,102 @@ export function parseDeepLink(url: string, scheme: string): DeepLinkCommand | nu
 
     if (action === 'route') {
       // Keep routing constrained to app-relative URLs.
-      const path = `${parsed.pathname || '/'}${parsed.search}${parsed.hash}`;
+      const search = withoutParams(parsed.search, [SIGNATURE_PARAM, EXPIRY_PARAM]);
+      const path = `${parsed.pathname || '/'}${search}${parsed.hash}`;
       if (!path.startsWith('/')) return null;
       return { kind: 'route', path };
     }
 
+    if (action === 'profile') {
+      const name = decodeURIComponent(parsed.pathname.replace(/^\/+|\/+$/g, ''));
+      if (!/^[a-zA-Z0-9_.-]{1,64}$/.test(name)) return null;
+      return { kind: 'profile', name };
+    }
+
+    if (action === 'connect') {
+      const rawServerUrl = parsed.searchParams.get('url');
+      if (!rawServerUrl) return null;
+      const serverUrl = new URL(rawServerUrl);
+      if (serverUrl.protocol !== 'http:' && serverUrl.protocol !== 'https:') return null;
+      if (serverUrl.username || serverUrl.password) return null;
+      // The route must stay on the new server (no `//host` or `/\host` paths).
+      const route = parsed.searchParams.get('route');
+      if (route !== null && !/^\/(?![/\\])/.test(route)) return null;
+      return { kind: 'connect', url: serverUrl.toString(), ...(route ? { route } : {}) };
+    }
+
     return null;
   } catch {
     return null;
   }
 }
 
-export function extractDeepLinkFromArgv(argv: string[], scheme: string): string | null {
+/**
+ * Build a deep link that parseDeepLink() (or parseCustomDeepLink() for custom
+ * actions) parses back to the same command.
+ *
+ * Route and custom paths are used as written, so they should already be
+ * URL-encoded. `sig` and `exp` route parameters do not survive parsing.
+ */
+export function buildDeepLink(command: DeepLinkCommand, scheme: string): string {
   const prefix = `${normalizeScheme(scheme)}://`;
+  switch (command.kind) {
+    case 'action':
+      return `${prefix}${command.action}`;
+    case 'route':
+      if (!command.path.startsWith('/')) {
+        throw new Error(`Route path must start with "/": ${command.path}`);
+      }
+      return `${prefix}route${command.path}`;
+    case 'profile':
+      if (!/^[a-zA-Z0-9_.-]{1,64}$/.test(command.name) || /^\.{1,2}$/.test(command.name)) {
+        throw new Error(`Invalid profile name: ${command.name}`);
+      }
+      return `${prefix}profile/${command.name}`;
+    case 'connect': {
+      const params = new URLSearchParams({ url: command.url });
+      if (command.route) params.set('route', command.route);
+      return `${prefix}connect?${params.toString()}`;
+    }
+    case 'custom': {
+      if (!isCustomDeepLinkActionName(command.action)) {
+        throw new Error(`Invalid custom deep link action: ${command.action}`);
+      }
+      if (!command.path.startsWith('/')) {
+        throw new Error(`Custom deep link path must start with "/": ${command.path}`);
+      }
+      const query = new URLSearchParams(command.params).toString();
+      return `${prefix}${command.action}${command.path === '/' ? '' : command.path}${query ? `?${query}` : ''}`;
+    }
+  }
+}
+
+/**
+ * App-relative route for a page URL on the APP_URL origin, or null for pages
+ * elsewhere (fallback page, other origins).
+ */
+export function getRouteForPageUrl(pageUrl: string, appUrl: string): string | null {
+  try {
+    const page = new URL(pageUrl);
+    if (page.origin === 'null' || page.origin !== new URL(appUrl).origin) return null;
+    return `${page.pathname}${page.search}${page.hash}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scheme of `schemes` a link uses (compared case-insensitively), or null.
+ */
+export function getDeepLinkScheme(url: string, schemes: readonly string[]): string | null {
+  const lowerUrl = url.toLowerCase();
+  return schemes.map(normalizeScheme).find((scheme) => lowerUrl.startsWith(`${scheme}://`)) ?? null;
+}
+
+export function extractDeepLinkFromArgv(argv: string[], schemes: string | readonly string[]): string | null {
+  const schemeList = typeof schemes === 'string' ? [schemes] : schemes;
   for (const arg of argv) {
-    if (typeof arg === 'string' && arg.toLowerCase().startsWith(prefix)) {
+    if (typeof arg === 'string' && getDeepLinkScheme(arg, schemeList) !== null) {
       return arg;
     }
   }
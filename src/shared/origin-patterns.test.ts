@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatOriginPattern,
+  isOriginPattern,
+  matchesOriginPattern,
+  parseOriginPattern,
+} from './origin-patterns';
+
+function matches(url: string, pattern: string): boolean {
+  const parsed = parseOriginPattern(pattern);
+  assert.ok(parsed, `pattern should parse: ${pattern}`);
+  return matchesOriginPattern(url, parsed);
+}
+
+test('isOriginPattern distinguishes patterns from exact origins', () => {
+  assert.equal(isOriginPattern('https://*.switchboard.internal'), true);
+  assert.equal(isOriginPattern('http://localhost:8000-8100'), true);
+  assert.equal(isOriginPattern('*://debug.example.com'), true);
+  assert.equal(isOriginPattern('https://debug.example.com'), false);
+  assert.equal(isOriginPattern('http://localhost:8080'), false);
+});
+
+test('parseOriginPattern rejects malformed patterns', () => {
+  assert.equal(parseOriginPattern('https://*.com'), null);
+  assert.equal(parseOriginPattern('https://a.*.example.com'), null);
+  assert.equal(parseOriginPattern('https://*example.com'), null);
+  assert.equal(parseOriginPattern('ftp://*.example.com'), null);
+  assert.equal(parseOriginPattern('http://localhost:9000-8000'), null);
+  assert.equal(parseOriginPattern('http://localhost:0-80'), null);
+  assert.equal(parseOriginPattern('https://*.example.com/path'), null);
+});
+
+test('formatOriginPattern produces canonical lowercase patterns', () => {
+  const parsed = parseOriginPattern('HTTPS://*.Switchboard.Internal/');
+  assert.ok(parsed);
+  assert.equal(formatOriginPattern(parsed), 'https://*.switchboard.internal');
+});
+
+test('wildcard subdomains require a dot boundary and a single label', () => {
+  const pattern = 'https://*.switchboard.internal';
+  assert.equal(matches('https://pr-123.switchboard.internal', pattern), true);
+  assert.equal(matches('https://pr-123.switchboard.internal/traces?id=1', pattern), true);
+  assert.equal(matches('https://switchboard.internal', pattern), false);
+  assert.equal(matches('https://evil-switchboard.internal', pattern), false);
+  assert.equal(matches('https://a.b.switchboard.internal', pattern), false);
+  assert.equal(matches('https://pr-123.switchboard.internal.evil.com', pattern), false);
+  assert.equal(matches('http://pr-123.switchboard.internal', pattern), false);
+  assert.equal(matches('https://pr-123.switchboard.internal:8443', pattern), false);
+});
+
+test('port ranges and any-port patterns', () => {
+  assert.equal(matches('http://localhost:8000', 'http://localhost:8000-8100'), true);
+  assert.equal(matches('http://localhost:8100', 'http://localhost:8000-8100'), true);
+  assert.equal(matches('http://localhost:8101', 'http://localhost:8000-8100'), false);
+  assert.equal(matches('http://localhost', 'http://localhost:8000-8100'), false);
+  assert.equal(matches('http://localhost', 'http://localhost:80-80'), true);
+  assert.equal(matches('http://localhost:1234', 'http://localhost:*'), true);
+  assert.equal(matches('http://localhost.evil.com:1234', 'http://localhost:*'), false);
+});
+
+test('scheme wildcard accepts http and https only on the default port', () => {
+  assert.equal(matches('http://debug.example.com', '*://debug.example.com'), true);
+  assert.equal(matches('https://debug.example.com', '*://debug.example.com'), true);
+  assert.equal(matches('https://debug.example.com:444', '*://debug.example.com'), false);
+  assert.equal(matches('file:///debug.example.com', '*://debug.example.com'), false);
+});
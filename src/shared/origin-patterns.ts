@@ -0,0 +1,141 @@
+/**
+ * Trusted origin patterns.
+ *
+ * Supported pattern forms (in addition to exact origins):
+ * - `https://*.switchboard.internal`  exactly one subdomain label
+ * - `http://localhost:8000-8100`      inclusive port range
+ * - `http://localhost:*`              any port
+ * - `*://debug.example.com`           http or https on the default port
+ *
+ * Matching is strict: wildcard hosts require a `.` boundary, so
+ * `https://*.switchboard.internal` never matches `evil-switchboard.internal`
+ * or the bare `switchboard.internal`.
+ */
+
+export type OriginPatternPort =
+  | { kind: 'default' }
+  | { kind: 'any' }
+  | { kind: 'range'; min: number; max: number };
+
+export interface OriginPattern {
+  /** `http`, `https`, or `*` for either */
+  scheme: 'http' | 'https' | '*';
+  /** Lowercased host without the wildcard prefix */
+  host: string;
+  /** Host is prefixed with `*.` (one subdomain label) */
+  wildcardSubdomain: boolean;
+  port: OriginPatternPort;
+}
+
+const PATTERN_REGEX =
+  /^(https?|\*):\/\/(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(?::(\*|\d{1,5}(?:-\d{1,5})?))?\/?$/i;
+const HOST_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+const DEFAULT_PORTS: Record<string, number> = {
+  'http:': 80,
+  'https:': 443,
+};
+
+/**
+ * True when a trusted origin entry uses pattern syntax rather than an exact origin.
+ */
+export function isOriginPattern(value: string): boolean {
+  return /\*|:\d+-\d+\/?$/.test(value.trim());
+}
+
+function isValidPort(port: number): boolean {
+  return Number.isInteger(port) && port >= 1 && port <= 65535;
+}
+
+/**
+ * Parse a trusted origin pattern. Returns null for malformed patterns.
+ */
+export function parseOriginPattern(pattern: string): OriginPattern | null {
+  const match = PATTERN_REGEX.exec(pattern.trim());
+  if (!match) return null;
+
+  const [, rawScheme, wildcard, rawHost, rawPort] = match;
+  const host = rawHost.toLowerCase();
+
+  if (!host.startsWith('[')) {
+    const labels = host.split('.');
+    if (!labels.every((label) => HOST_LABEL.test(label))) return null;
+    // A wildcard directly above a single label (e.g. `*.com`) is too broad.
+    if (wildcard && labels.length < 2) return null;
+  }
+
+  let port: OriginPatternPort = { kind: 'default' };
+  if (rawPort === '*') {
+    port = { kind: 'any' };
+  } else if (rawPort !== undefined) {
+    const [minText, maxText] = rawPort.split('-');
+    const min = Number(minText);
+    const max = maxText === undefined ? min : Number(maxText);
+    if (!isValidPort(min) || !isValidPort(max) || min > max) return null;
+    port = { kind: 'range', min, max };
+  }
+
+  return {
+    scheme: rawScheme.toLowerCase() as OriginPattern['scheme'],
+    host,
+    wildcardSubdomain: Boolean(wildcard),
+    port,
+  };
+}
+
+/**
+ * Render a parsed pattern in its canonical (lowercase) form.
+ */
+export function formatOriginPattern(pattern: OriginPattern): string {
+  const host = `${pattern.wildcardSubdomain ? '*.' : ''}${pattern.host}`;
+  let port = '';
+  if (pattern.port.kind === 'any') {
+    port = ':*';
+  } else if (pattern.port.kind === 'range') {
+    port = pattern.port.min === pattern.port.max
+      ? `:${pattern.port.min}`
+      : `:${pattern.port.min}-${pattern.port.max}`;
+  }
+  return `${pattern.scheme}://${host}${port}`;
+}
+
+function matchesHost(hostname: string, pattern: OriginPattern): boolean {
+  if (!pattern.wildcardSubdomain) {
+    return hostname === pattern.host;
+  }
+
+  const suffix = `.${pattern.host}`;
+  if (!hostname.endsWith(suffix)) return false;
+  const subdomain = hostname.slice(0, -suffix.length);
+  return HOST_LABEL.test(subdomain);
+}
+
+function matchesPort(parsed: URL, pattern: OriginPattern): boolean {
+  switch (pattern.port.kind) {
+    case 'any':
+      return true;
+    case 'default':
+      return parsed.port === '';
+    case 'range': {
+      const port = parsed.port === '' ? DEFAULT_PORTS[parsed.protocol] : Number(parsed.port);
+      return port >= pattern.port.min && port <= pattern.port.max;
+    }
+  }
+}
+
+/**
+ * Check whether a URL's origin matches a parsed pattern.
+ */
+export function matchesOriginPattern(url: string | URL, pattern: OriginPattern): boolean {
+  let parsed: URL;
+  try {
+    parsed = typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+  if (pattern.scheme !== '*' && parsed.protocol !== `${pattern.scheme}:`) return false;
+
+  return matchesHost(parsed.hostname.toLowerCase(), pattern) && matchesPort(parsed, pattern);
+}
@@ -0,0 +1,10 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { SETTINGS_HTML } from './settings-page';
+
+test('settings page inline script parses', () => {
+  const scripts = [...SETTINGS_HTML.matchAll(/<script>([\s\S]*?)<\/script>/g)].map((match) => match[1]);
+
+  assert.equal(scripts.length, 1);
+  assert.doesNotThrow(() => new Function(scripts[0]));
+});
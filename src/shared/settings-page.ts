@@ -0,0 +1,254 @@
+/**
+ * Local settings page
+ *
+ * The static HTML shown by the local settings window (see
+ * src/main/settings-window.ts). It is kept free of Electron imports so the
+ * page can be checked outside the Electron runtime.
+ */
+
+const SETTINGS_CSP = "default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';";
+
+export const SETTINGS_HTML = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${SETTINGS_CSP}">
+  <title>Connection Settings</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #1a1a2e;
+      color: #e8e8e8;
+      padding: 24px;
+      font-size: 13px;
+    }
+    h1 { font-size: 20px; font-weight: 600; margin-bottom: 4px; }
+    h2 { font-size: 14px; font-weight: 600; margin: 20px 0 8px; color: #a0a0a0; }
+    .path { font-family: monospace; font-size: 11px; color: #6b7280; word-break: break-all; }
+    label { display: block; margin: 10px 0 4px; }
+    label.inline { display: flex; gap: 8px; align-items: center; }
+    input[type="text"], input[type="url"], input[type="password"], select, textarea {
+      width: 100%;
+      padding: 6px 8px;
+      border: 1px solid #374151;
+      border-radius: 6px;
+      background: #111827;
+      color: #e8e8e8;
+      font: inherit;
+    }
+    textarea { font-family: monospace; min-height: 64px; }
+    input:disabled, select:disabled, textarea:disabled { opacity: 0.5; }
+    .note { font-size: 11px; color: #fbbf24; margin-top: 2px; }
+    .actions { display: flex; gap: 12px; margin-top: 24px; }
+    button {
+      padding: 10px 20px;
+      border: none;
+      border-radius: 8px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    }
+    .btn-primary { background: #4f46e5; color: white; }
+    .btn-secondary { background: #374151; color: #e8e8e8; }
+    #status, #backupStatus { margin-top: 16px; white-space: pre-line; }
+    .error { color: #f87171; }
+    .ok { color: #34d399; }
+  </style>
+</head>
+<body>
+  <h1>Connection Settings</h1>
+  <p class="path">Saved to: <span id="targetPath"></span></p>
+  <form id="form">
+    <h2>Connection</h2>
+    <label for="appUrl">App URL</label>
+    <input id="appUrl" type="url" data-field="appUrl" required>
+    <label for="trustedOrigins">Trusted origins (one per line)</label>
+    <textarea id="trustedOrigins" data-field="trustedOrigins"></textarea>
+
+    <h2>Tray</h2>
+    <label class="inline"><input id="startInTray" type="checkbox" data-field="startInTray"> Start in tray</label>
+    <label class="inline"><input id="minimizeToTray" type="checkbox" data-field="minimizeToTray"> Minimize to tray on close</label>
+
+    <h2>Updates</h2>
+    <label for="updateChannel">Update channel</label>
+    <select id="updateChannel" data-field="updateChannel">
+      <option value="stable">stable</option>
+      <option value="beta">beta</option>
+      <option value="alpha">alpha</option>
+    </select>
+
+    <h2>Splash screen</h2>
+    <label class="inline"><input id="splash.enabled" type="checkbox" data-field="splash.enabled"> Show splash screen</label>
+    <label class="inline"><input id="splash.showVersion" type="checkbox" data-field="splash.showVersion"> Show version</label>
+    <label for="splash.appName">App name</label>
+    <input id="splash.appName" type="text" data-field="splash.appName">
+    <label for="splash.loadingText">Loading text</label>
+    <input id="splash.loadingText" type="text" data-field="splash.loadingText">
+    <label for="splash.backgroundColor">Background color</label>
+    <input id="splash.backgroundColor" type="text" data-field="splash.backgroundColor">
+    <label for="splash.textColor">Text color</label>
+    <input id="splash.textColor" type="text" data-field="splash.textColor">
+    <label for="splash.accentColor">Accent color</label>
+    <input id="splash.accentColor" type="text" data-field="splash.accentColor">
+
+    <div class="actions">
+      <button type="button" class="btn-secondary" id="save">Save</button>
+      <button type="button" class="btn-primary" id="apply">Apply and Reconnect</button>
+    </div>
+    <p id="status"></p>
+  </form>
+
+  <section id="backup">
+    <h2>Storage backup</h2>
+    <p>Saved dashboards and other app data, encrypted with a passphrase.</p>
+    <label for="backupPassphrase">Passphrase (at least 8 characters)</label>
+    <input id="backupPassphrase" type="password" autocomplete="new-password">
+    <label class="inline"><input id="backupIncludeSecure" type="checkbox"> Include secure values (tokens)</label>
+    <label for="backupMode">When importing</label>
+    <select id="backupMode">
+      <option value="merge">Merge into existing data</option>
+      <option value="replace">Replace existing data</option>
+    </select>
+    <div class="actions">
+      <button type="button" class="btn-secondary" id="exportBackup">Export…</button>
+      <button type="button" class="btn-secondary" id="importBackup">Import…</button>
+    </div>
+    <p id="backupStatus"></p>
+  </section>
+  <script>
+    const bridge = window.electronBridge.settings;
+    const inputs = Array.from(document.querySelectorAll('[data-field]'));
+    const status = document.getElementById('status');
+
+    function getValue(values, field) {
+      return field.split('.').reduce((current, key) => current && current[key], values);
+    }
+
+    function describeSource(source) {
+      if (source.layer === 'env') return 'environment variable ' + source.variable;
+      if (source.layer === 'profile') return 'profile "' + source.profile + '"';
+      if (source.layer === 'policy') return 'machine-wide policy';
+      return source.layer;
+    }
+
+    function showStatus(text, kind) {
+      status.textContent = text;
+      status.className = kind;
+    }
+
+    function render(state) {
+      document.getElementById('targetPath').textContent = state.targetPath;
+      for (const input of inputs) {
+        const field = input.dataset.field;
+        const value = getValue(state.values, field);
+        if (input.type === 'checkbox') {
+          input.checked = Boolean(value);
+        } else if (field === 'trustedOrigins') {
+          input.value = value.join('\\n');
+        } else {
+          input.value = value;
+        }
+        input.disabled = state.lockedFields.includes(field);
+
+        const previous = document.querySelector('.note[data-for="' + field + '"]');
+        if (previous) previous.remove();
+        const source = state.overrides[field];
+        if (source) {
+          const note = document.createElement('p');
+          note.className = 'note';
+          note.dataset.for = field;
+          note.textContent = source.layer === 'policy'
+            ? 'Locked by the machine-wide policy'
+            : 'Currently overridden by ' + describeSource(source);
+          const anchor = input.type === 'checkbox' ? input.parentElement : input;
+          anchor.insertAdjacentElement('afterend', note);
+        }
+      }
+    }
+
+    function collect() {
+      const values = { splash: {} };
+      for (const input of inputs) {
+        const field = input.dataset.field;
+        let value = input.type === 'checkbox' ? input.checked : input.value.trim();
+        if (field === 'trustedOrigins') {
+          value = input.value.split('\\n').map((line) => line.trim()).filter(Boolean);
+        }
+        if (field.startsWith('splash.')) {
+          values.splash[field.slice('splash.'.length)] = value;
+        } else {
+          values[field] = value;
+        }
+      }
+      return values;
+    }
+
+    async function save(reconnect) {
+      try {
+        const result = await bridge.save(collect(), { reconnect });
+        if (!result.saved) {
+          showStatus(result.problems.map((p) => p.field + ': ' + p.problem).join('\\n'), 'error');
+          return;
+        }
+        let text = result.changedFields.length > 0
+          ? 'Saved ' + result.changedFields.join(', ')
+          : 'No changes to save';
+        if (result.shadowedFields.length > 0) {
+          text += '\\nStill overridden at runtime: ' + result.shadowedFields.join(', ');
+        }
+        showStatus(text, 'ok');
+        render(await bridge.getState());
+      } catch (error) {
+        showStatus(String(error && error.message ? error.message : error), 'error');
+      }
+    }
+
+    document.getElementById('save').addEventListener('click', () => save(false));
+    document.getElementById('apply').addEventListener('click', () => save(true));
+
+    const backupStatus = document.getElementById('backupStatus');
+
+    function showBackupStatus(text, kind) {
+      backupStatus.textContent = text;
+      backupStatus.className = kind;
+    }
+
+    async function runBackup(action) {
+      const passphrase = document.getElementById('backupPassphrase').value;
+      try {
+        if (action === 'export') {
+          const includeSecure = document.getElementById('backupIncludeSecure').checked;
+          const result = await bridge.exportBackup({ passphrase, includeSecure });
+          if (!result) return;
+          showBackupStatus(
+            'Exported ' + result.localCount + ' values and ' + result.secureCount + ' secure values to\\n' + result.path,
+            'ok'
+          );
+        } else {
+          const mode = document.getElementById('backupMode').value;
+          const summary = await bridge.importBackup({ passphrase, mode });
+          if (!summary) return;
+          const lines = [
+            'Imported ' + summary.localImported + ' values and ' + summary.secureImported + ' secure values',
+          ];
+          if (summary.mode === 'replace') {
+            lines.push('Removed ' + summary.localRemoved + ' values and ' + summary.secureRemoved + ' secure values first');
+          }
+          if (summary.skipped > 0) lines.push('Skipped ' + summary.skipped + ' expired or invalid entries');
+          if (summary.backupCreatedAt) lines.push('Backup from ' + summary.backupCreatedAt);
+          showBackupStatus(lines.join('\\n'), 'ok');
+        }
+      } catch (error) {
+        showBackupStatus(String(error && error.message ? error.message : error), 'error');
+      }
+    }
+
+    document.getElementById('exportBackup').addEventListener('click', () => runBackup('export'));
+    document.getElementById('importBackup').addEventListener('click', () => runBackup('import'));
+
+    bridge.getState().then(render).catch((error) => showStatus(String(error), 'error'));
+  </script>
+</body>
+</html>
+`;
@@ -0,0 +1,122 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { ConfigProvenance, SettingsValues } from './types';
+import {
+  applySettingsUpdate,
+  buildSettingsUpdate,
+  getPersistedTrustedOrigins,
+  getSettingsOverrides,
+} from './settings';
+
+function currentValues(): SettingsValues {
+  return {
+    appUrl: 'https://switchboard.internal/',
+    trustedOrigins: ['https://switchboard.internal'],
+    startInTray: false,
+    minimizeToTray: true,
+    updateChannel: 'stable',
+    splash: {
+      enabled: true,
+      appName: 'Switchboard',
+      loadingText: 'Connecting...',
+      backgroundColor: '#1a1a2e',
+      textColor: '#e8e8e8',
+      accentColor: '#4f46e5',
+      showVersion: true,
+    },
+  };
+}
+
+test('buildSettingsUpdate returns only changed fields in config file shape', () => {
+  const submitted = {
+    ...currentValues(),
+    appUrl: 'https://staging.switchboard.internal',
+    trustedOrigins: ['https://staging.switchboard.internal/'],
+    splash: { ...currentValues().splash, appName: 'Staging' },
+  };
+  const result = buildSettingsUpdate(submitted, currentValues(), []);
+
+  assert.deepEqual(result.problems, []);
+  assert.deepEqual(result.changedFields, ['appUrl', 'trustedOrigins', 'splash.appName']);
+  assert.deepEqual(result.update, {
+    appUrl: 'https://staging.switchboard.internal/',
+    trustedOrigins: ['https://staging.switchboard.internal'],
+    splash: { appName: 'Staging' },
+  });
+});
+
+test('buildSettingsUpdate reports invalid values with loadConfig rules', () => {
+  const submitted = {
+    ...currentValues(),
+    appUrl: 'ftp://switchboard.internal',
+    trustedOrigins: [],
+    updateChannel: 'nightly',
+    splash: { ...currentValues().splash, accentColor: 'url(javascript:alert(1))' },
+  };
+  const result = buildSettingsUpdate(submitted, currentValues(), []);
+
+  assert.deepEqual(
+    result.problems.map((problem) => problem.field).sort(),
+    ['appUrl', 'splash.accentColor', 'trustedOrigins', 'updateChannel']
+  );
+  assert.deepEqual(result.changedFields, []);
+});
+
+test('buildSettingsUpdate refuses changes to policy-locked fields', () => {
+  const submitted = { ...currentValues(), appUrl: 'https://other.example.com', startInTray: true };
+  const result = buildSettingsUpdate(submitted, currentValues(), ['appUrl']);
+
+  assert.deepEqual(result.problems.map((problem) => [problem.field, problem.problem]), [
+    ['appUrl', 'Locked by the machine-wide policy'],
+  ]);
+  assert.deepEqual(result.changedFields, ['startInTray']);
+});
+
+test('applySettingsUpdate keeps untouched keys and upgrades legacy files', () => {
+  const existing = {
+    url: 'https://${SWITCHBOARD_HOST}',
+    profiles: { dev: { appUrl: 'http://localhost:3000' } },
+    splash: { logoPath: './logo.png' },
+  };
+  assert.deepEqual(applySettingsUpdate(existing, { startInTray: true, splash: { appName: 'Team' } }), {
+    configVersion: 2,
+    appUrl: 'https://${SWITCHBOARD_HOST}',
+    profiles: { dev: { appUrl: 'http://localhost:3000' } },
+    splash: { logoPath: './logo.png', appName: 'Team' },
+    startInTray: true,
+  });
+});
+
+test('getPersistedTrustedOrigins appends to the user file list only', () => {
+  const existing = { trustedOrigins: ['https://${SWITCHBOARD_HOST}', 'https://staging.internal'] };
+
+  assert.deepEqual(getPersistedTrustedOrigins(existing, ['https://new.internal', 'https://staging.internal']), [
+    'https://${SWITCHBOARD_HOST}',
+    'https://staging.internal',
+    'https://new.internal',
+  ]);
+  assert.equal(getPersistedTrustedOrigins({ appUrl: 'https://switchboard.internal' }, ['https://new.internal']), undefined);
+  assert.equal(getPersistedTrustedOrigins(undefined, []), undefined);
+});
+
+test('getSettingsOverrides lists settings fields not supplied by the user file', () => {
+  const provenance: ConfigProvenance = {
+    fields: {
+      appUrl: { layer: 'env', variable: 'APP_URL' },
+      trustedOrigins: { layer: 'policy', path: '/etc/switchboard/policy.json' },
+      startInTray: { layer: 'file', path: '/home/me/.switchboard.config.json' },
+      logLevel: { layer: 'env', variable: 'LOG_LEVEL' },
+      'splash.appName': { layer: 'default' },
+    },
+    candidatePaths: [],
+    loadedPath: null,
+    extendedPaths: [],
+    explicitPathVariable: null,
+    policyPath: null,
+  };
+
+  assert.deepEqual(getSettingsOverrides(provenance), {
+    appUrl: { layer: 'env', variable: 'APP_URL' },
+    trustedOrigins: { layer: 'policy', path: '/etc/switchboard/policy.json' },
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Local settings window model
+ *
+ * The bundled settings window edits a subset of the user config file. Input is
+ * validated with validateConfigFile() so it follows the same rules as
+ * loadConfig(), and only fields that differ from the running config are
+ * written back, so `${VAR}` templates and untouched values stay as they are.
+ */
+
+import type { AppConfig, ConfigFile } from './config';
+import { mergeConfigObjects } from './config';
+import { isPlainObject, validateConfigFile } from './config-validation';
+import { migrateConfig } from './config-migrations';
+import type { ConfigProblem, ConfigProvenance, ConfigValueSource, SettingsValues } from './types';
+
+/** Field paths edited by the settings window */
+export const SETTINGS_FIELDS = [
+  'appUrl',
+  'trustedOrigins',
+  'startInTray',
+  'minimizeToTray',
+  'updateChannel',
+  'splash.enabled',
+  'splash.appName',
+  'splash.loadingText',
+  'splash.backgroundColor',
+  'splash.textColor',
+  'splash.accentColor',
+  'splash.showVersion',
+] as const;
+
+export interface SettingsUpdate {
+  /** Changed fields in config file shape (empty when nothing changed) */
+  update: ConfigFile;
+  changedFields: string[];
+  problems: ConfigProblem[];
+}
+
+function getPath(source: unknown, field: string): unknown {
+  let current = source;
+  for (const segment of field.split('.')) {
+    current = isPlainObject(current) ? current[segment] : undefined;
+  }
+  return current;
+}
+
+function setPath(target: Record<string, unknown>, field: string, value: unknown): void {
+  const segments = field.split('.');
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isPlainObject(current[segment])) current[segment] = {};
+    current = current[segment] as Record<string, unknown>;
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Read the settings window values from the running config.
+ */
+export function getSettingsValues(config: AppConfig): SettingsValues {
+  return {
+    appUrl: config.appUrl,
+    trustedOrigins: [...config.trustedOrigins],
+    startInTray: config.startInTray,
+    minimizeToTray: config.minimizeToTray,
+    updateChannel: config.updateChannel,
+    splash: {
+      enabled: config.splash.enabled,
+      appName: config.splash.appName,
+      loadingText: config.splash.loadingText,
+      backgroundColor: config.splash.backgroundColor,
+      textColor: config.splash.textColor,
+      accentColor: config.splash.accentColor,
+      showVersion: config.splash.showVersion,
+    },
+  };
+}
+
+/**
+ * Settings fields whose running value does not come from the user config file
+ * (env vars, an active profile, runtime switches or the policy file).
+ */
+export function getSettingsOverrides(provenance: ConfigProvenance): Record<string, ConfigValueSource> {
+  const overrides: Record<string, ConfigValueSource> = {};
+  for (const field of SETTINGS_FIELDS) {
+    const source = provenance.fields[field];
+    if (source && source.layer !== 'file' && source.layer !== 'default') {
+      overrides[field] = source;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Validate submitted settings and collect the fields that changed.
+ *
+ * Fields locked by policy cannot change. Any problem means nothing should be saved.
+ */
+export function buildSettingsUpdate(
+  submitted: unknown,
+  current: SettingsValues,
+  lockedFields: readonly string[]
+): SettingsUpdate {
+  const problems: ConfigProblem[] = [];
+  const validated = validateConfigFile(submitted, problems);
+  const update: Record<string, unknown> = {};
+  const changedFields: string[] = [];
+
+  if (Array.isArray(validated.trustedOrigins) && validated.trustedOrigins.length === 0) {
+    problems.push({
+      field: 'trustedOrigins',
+      source: 'file',
+      problem: 'At least one trusted origin is required',
+      fallbackUsed: current.trustedOrigins,
+    });
+  }
+
+  const rejectedFields = new Set(problems.map((problem) => problem.field));
+  for (const field of SETTINGS_FIELDS) {
+    const value = getPath(validated, field);
+    if (value === undefined || rejectedFields.has(field)) continue;
+    if (JSON.stringify(value) === JSON.stringify(getPath(current, field))) continue;
+
+    if (lockedFields.includes(field)) {
+      problems.push({
+        field,
+        source: 'file',
+        problem: 'Locked by the machine-wide policy',
+        fallbackUsed: getPath(current, field),
+      });
+      continue;
+    }
+    setPath(update, field, value);
+    changedFields.push(field);
+  }
+
+  return { update: update as ConfigFile, changedFields, problems };
+}
+
+/**
+ * Trusted origins to save with a server kept from a connect link: the user
+ * file's own list with the new origins appended. Returns undefined when the
+ * file has no list, since the new appUrl's origin is then trusted by default.
+ */
+export function getPersistedTrustedOrigins(existing: unknown, addedOrigins: readonly string[]): string[] | undefined {
+  const fileOrigins = isPlainObject(existing) ? migrateConfig(existing).config.trustedOrigins : undefined;
+  if (!Array.isArray(fileOrigins)) return undefined;
+  return [...new Set([...fileOrigins.filter((origin) => typeof origin === 'string'), ...addedOrigins])];
+}
+
+/**
+ * Merge a settings update into the existing user config file contents,
+ * upgrading older file formats first.
+ */
+export function applySettingsUpdate(existing: unknown, update: ConfigFile): Record<string, unknown> {
+  const base = isPlainObject(existing) ? migrateConfig(existing).config : {};
+  return mergeConfigObjects(base, update as Record<string, unknown>);
+}
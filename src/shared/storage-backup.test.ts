@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import {
+  ScryptParams,
+  StorageBackupContents,
+  decryptStorageBackup,
+  encryptStorageBackup,
+} from './storage-backup';
+
+// Cheap KDF parameters keep the tests fast; files carry their own parameters.
+const FAST: ScryptParams = { N: 1024, r: 8, p: 1 };
+const PASSPHRASE = 'correct horse battery';
+
+const CONTENTS: StorageBackupContents = {
+  createdAt: '2026-01-01T00:00:00.000Z',
+  local: {
+    'dashboards.main': '{"panels":[1,2]}',
+    lastTrace: { value: 'trace-1', expiresAt: 1_900_000_000_000 },
+  },
+  secure: { 'api.token': 'secret-token' },
+};
+
+test('storage backups round-trip through encryption', () => {
+  const text = encryptStorageBackup(CONTENTS, PASSPHRASE, FAST);
+
+  assert.ok(!text.includes('secret-token'));
+  assert.deepEqual(decryptStorageBackup(text, PASSPHRASE), { contents: CONTENTS, invalidEntries: 0 });
+});
+
+test('decryptStorageBackup rejects a wrong passphrase or tampered file', () => {
+  const text = encryptStorageBackup(CONTENTS, PASSPHRASE, FAST);
+  const file = JSON.parse(text);
+
+  assert.throws(() => decryptStorageBackup(text, 'wrong passphrase'), /Wrong passphrase or damaged/);
+
+  const data = Buffer.from(file.data, 'base64');
+  data[0] ^= 1;
+  assert.throws(
+    () => decryptStorageBackup(JSON.stringify({ ...file, data: data.toString('base64') }), PASSPHRASE),
+    /Wrong passphrase or damaged/
+  );
+  // The header is authenticated too.
+  const iv = crypto.randomBytes(12).toString('base64');
+  assert.throws(
+    () => decryptStorageBackup(JSON.stringify({ ...file, cipher: { ...file.cipher, iv } }), PASSPHRASE),
+    /Wrong passphrase or damaged/
+  );
+});
+
+test('decryptStorageBackup checks the file header before deriving a key', () => {
+  const file = JSON.parse(encryptStorageBackup(CONTENTS, PASSPHRASE, FAST));
+
+  assert.throws(() => decryptStorageBackup('{not json', PASSPHRASE), /Not a Switchboard storage backup/);
+  assert.throws(() => decryptStorageBackup('{"format":"other"}', PASSPHRASE), /Not a Switchboard storage backup/);
+  assert.throws(
+    () => decryptStorageBackup(JSON.stringify({ ...file, version: 2 }), PASSPHRASE),
+    /Unsupported storage backup version 2/
+  );
+  assert.throws(
+    () => decryptStorageBackup(JSON.stringify({ ...file, kdf: { ...file.kdf, N: 2 ** 24 } }), PASSPHRASE),
+    /header is invalid/
+  );
+  assert.throws(() => decryptStorageBackup(JSON.stringify(file), 'short'), /passphrase must be 8\.\.1024/);
+  // A truncated tag would authenticate with fewer bits.
+  const tag = Buffer.from(file.tag, 'base64').subarray(0, 4).toString('base64');
+  assert.throws(() => decryptStorageBackup(JSON.stringify({ ...file, tag }), PASSPHRASE), /header is invalid/);
+});
+
+test('decryptStorageBackup drops invalid entries', () => {
+  const contents = {
+    createdAt: '2026-01-01T00:00:00.000Z',
+    local: { ok: 'value', 'bad key': 'value', number: 3 },
+    secure: { token: 'secret', empty: null },
+  } as unknown as StorageBackupContents;
+  const text = encryptStorageBackup(contents, PASSPHRASE, FAST);
+
+  assert.deepEqual(decryptStorageBackup(text, PASSPHRASE), {
+    contents: { createdAt: '2026-01-01T00:00:00.000Z', local: { ok: 'value' }, secure: { token: 'secret' } },
+    invalidEntries: 3,
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Encrypted storage backups
+ *
+ * A backup holds the local storage entries and, optionally, the tracked
+ * secure storage values in one file. The payload is encrypted with
+ * AES-256-GCM under a key derived from the passphrase with scrypt; the file
+ * header (format, KDF and cipher parameters) is authenticated as additional
+ * data, so a tampered header fails decryption like a wrong passphrase.
+ */
+
+import * as crypto from 'crypto';
+import { StoredValueEnvelope, isStoredValueEnvelope, isValidStorageKey } from './storage';
+
+export const STORAGE_BACKUP_FORMAT = 'switchboard-storage-backup';
+export const STORAGE_BACKUP_VERSION = 1;
+export const STORAGE_BACKUP_EXTENSION = 'sbbackup';
+
+export const STORAGE_BACKUP_PASSPHRASE_MIN = 8;
+export const STORAGE_BACKUP_PASSPHRASE_MAX = 1024;
+
+export interface ScryptParams {
+  /** CPU/memory cost, a power of two */
+  N: number;
+  r: number;
+  p: number;
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 15, r: 8, p: 1 };
+
+/** Bounds for parameters read from a file, so a crafted backup cannot exhaust memory */
+const SCRYPT_N_MIN = 2 ** 10;
+const SCRYPT_N_MAX = 2 ** 20;
+const SCRYPT_R_MAX = 32;
+const SCRYPT_P_MAX = 16;
+const SCRYPT_MEMORY_MAX = 256 * 1024 * 1024;
+
+/** GCM tag length in bytes; shorter tags would weaken authentication */
+const AUTH_TAG_LENGTH = 16;
+
+/** Decrypted backup contents */
+export interface StorageBackupContents {
+  /** When the backup was written (ISO 8601) */
+  createdAt: string;
+  /** Local storage entries by key; values with a TTL keep their expiry */
+  local: Record<string, string | StoredValueEnvelope>;
+  /** Secure storage values by key, when the backup includes them */
+  secure?: Record<string, string>;
+}
+
+interface StorageBackupHeader {
+  format: typeof STORAGE_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'scrypt'; salt: string } & ScryptParams;
+  cipher: { name: 'aes-256-gcm'; iv: string };
+}
+
+interface StorageBackupFile extends StorageBackupHeader {
+  tag: string;
+  data: string;
+}
+
+export function validateBackupPassphrase(passphrase: unknown): string {
+  if (typeof passphrase !== 'string') {
+    throw new Error('Backup passphrase must be a string');
+  }
+  if (passphrase.length < STORAGE_BACKUP_PASSPHRASE_MIN || passphrase.length > STORAGE_BACKUP_PASSPHRASE_MAX) {
+    throw new Error(
+      `Backup passphrase must be ${STORAGE_BACKUP_PASSPHRASE_MIN}..${STORAGE_BACKUP_PASSPHRASE_MAX} characters`
+    );
+  }
+  return passphrase;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidScryptParams(params: ScryptParams): boolean {
+  const { N, r, p } = params;
+  return (
+    Number.isInteger(N) &&
+    N >= SCRYPT_N_MIN &&
+    N <= SCRYPT_N_MAX &&
+    (N & (N - 1)) === 0 &&
+    Number.isInteger(r) &&
+    r >= 1 &&
+    r <= SCRYPT_R_MAX &&
+    Number.isInteger(p) &&
+    p >= 1 &&
+    p <= SCRYPT_P_MAX &&
+    128 * N * r <= SCRYPT_MEMORY_MAX
+  );
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+  const { N, r, p } = params;
+  return crypto.scryptSync(passphrase.normalize('NFC'), salt, 32, { N, r, p, maxmem: 256 * N * r });
+}
+
+/** Header fields in a fixed order, used as GCM additional data */
+function getAdditionalData(header: StorageBackupHeader): Buffer {
+  const { format, version, kdf, cipher } = header;
+  return Buffer.from(
+    JSON.stringify([format, version, kdf.name, kdf.salt, kdf.N, kdf.r, kdf.p, cipher.name, cipher.iv]),
+    'utf-8'
+  );
+}
+
+/**
+ * Encrypt backup contents into the text of a backup file
+ */
+export function encryptStorageBackup(
+  contents: StorageBackupContents,
+  passphrase: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): string {
+  validateBackupPassphrase(passphrase);
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const header: StorageBackupHeader = {
+    format: STORAGE_BACKUP_FORMAT,
+    version: STORAGE_BACKUP_VERSION,
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...params },
+    cipher: { name: 'aes-256-gcm', iv: iv.toString('base64') },
+  };
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, params), iv, {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+  cipher.setAAD(getAdditionalData(header));
+  const data = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf-8'), cipher.final()]);
+
+  const file: StorageBackupFile = {
+    ...header,
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+function readBackupFile(text: string): StorageBackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Switchboard storage backup');
+  }
+  if (!isRecord(raw) || raw.format !== STORAGE_BACKUP_FORMAT) {
+    throw new Error('Not a Switchboard storage backup');
+  }
+  if (raw.version !== STORAGE_BACKUP_VERSION) {
+    throw new Error(`Unsupported storage backup version ${String(raw.version)}`);
+  }
+
+  const { kdf, cipher, tag, data } = raw;
+  if (
+    !isRecord(kdf) ||
+    kdf.name !== 'scrypt' ||
+    typeof kdf.salt !== 'string' ||
+    !isValidScryptParams({ N: kdf.N, r: kdf.r, p: kdf.p } as ScryptParams) ||
+    !isRecord(cipher) ||
+    cipher.name !== 'aes-256-gcm' ||
+    typeof cipher.iv !== 'string' ||
+    typeof tag !== 'string' ||
+    Buffer.from(tag, 'base64').length !== AUTH_TAG_LENGTH ||
+    typeof data !== 'string'
+  ) {
+    throw new Error('Storage backup header is invalid');
+  }
+  return raw as unknown as StorageBackupFile;
+}
+
+/**
+ * Keep the valid entries of decrypted contents. Returns the number of
+ * entries dropped.
+ */
+function sanitizeContents(raw: unknown): { contents: StorageBackupContents; invalidEntries: number } {
+  if (!isRecord(raw) || !isRecord(raw.local) || (raw.secure !== undefined && !isRecord(raw.secure))) {
+    throw new Error('Storage backup contents are invalid');
+  }
+
+  let invalidEntries = 0;
+  const local: StorageBackupContents['local'] = {};
+  for (const [key, value] of Object.entries(raw.local)) {
+    if (isValidStorageKey(key) && (typeof value === 'string' || isStoredValueEnvelope(value))) {
+      local[key] = typeof value === 'string' ? value : { value: value.value, expiresAt: value.expiresAt };
+    } else {
+      invalidEntries += 1;
+    }
+  }
+
+  const contents: StorageBackupContents = {
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+    local,
+  };
+  if (raw.secure !== undefined) {
+    const secure: Record<string, string> = {};
+    for (const [key, value] of Object.entries(raw.secure as Record<string, unknown>)) {
+      if (isValidStorageKey(key) && typeof value === 'string') {
+        secure[key] = value;
+      } else {
+        invalidEntries += 1;
+      }
+    }
+    contents.secure = secure;
+  }
+  return { contents, invalidEntries };
+}
+
+/**
+ * Decrypt the text of a backup file. Invalid entries are dropped and counted.
+ */
+export function decryptStorageBackup(
+  text: string,
+  passphrase: string
+): { contents: StorageBackupContents; invalidEntries: number } {
+  validateBackupPassphrase(passphrase);
+  const file = readBackupFile(text);
+  const { N, r, p } = file.kdf;
+  const key = deriveKey(passphrase, Buffer.from(file.kdf.salt, 'base64'), { N, r, p });
+
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.cipher.iv, 'base64'), {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    decipher.setAAD(getAdditionalData(file));
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Wrong passphrase or damaged storage backup');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(plaintext);
+  } catch {
+    throw new Error('Storage backup contents are invalid');
+  }
+  return sanitizeContents(raw);
+}
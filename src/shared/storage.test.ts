@@ -3,10 +3,21 @@ import assert from 'node:assert/strict';
 import {
   LOCAL_STORAGE_NAMESPACE,
   SECURE_STORAGE_NAMESPACE,
+  SECURE_KEY_INDEX,
+  DEEP_LINK_DECISIONS_KEY,
+  DEEP_LINK_HISTORY_KEY,
   getLocalStorageKey,
   getSecureStorageKey,
+  checkStorageQuota,
+  clearStoredValues,
+  createStoredValueEnvelope,
+  getStoredEntrySizes,
+  isReservedStorageKey,
   isValidStorageKey,
+  listExpiredStorageKeys,
+  listStorageKeys,
   resolveStoredValue,
+  storageKeysOverlap,
 } from './storage';
 
 test('storage key helpers namespace keys deterministically', () => {
@@ -21,6 +32,15 @@ test('isValidStorageKey enforces safe key constraints', () => {
   assert.equal(isValidStorageKey('../path-traversal'), false);
 });
 
+test('isValidStorageKey rejects the app\'s own root entries', () => {
+  for (const key of [SECURE_KEY_INDEX, DEEP_LINK_DECISIONS_KEY, DEEP_LINK_HISTORY_KEY, '__switchboard_future.x']) {
+    assert.equal(isReservedStorageKey(key), true);
+    assert.equal(isValidStorageKey(key), false);
+  }
+  assert.equal(isReservedStorageKey('_switchboard_draft'), false);
+  assert.equal(isValidStorageKey('__draft__'), true);
+});
+
 test('resolveStoredValue prefers namespaced values and preserves legacy values for migration', () => {
   const namespaced = resolveStoredValue('new-value', 'legacy-value');
   assert.deepEqual(namespaced, {
@@ -40,3 +60,113 @@ test('resolveStoredValue prefers namespaced values and preserves legacy values f
     shouldMigrateLegacyValue: false,
   });
 });
+
+test('storageKeysOverlap matches the key, keys under it and keys above it', () => {
+  assert.equal(storageKeysOverlap('deeplink.secret', 'deeplink.secret'), true);
+  assert.equal(storageKeysOverlap('deeplink.secret.x', 'deeplink.secret'), true);
+  assert.equal(storageKeysOverlap('deeplink', 'deeplink.secret'), true);
+  assert.equal(storageKeysOverlap('deeplink.secretive', 'deeplink.secret'), false);
+  assert.equal(storageKeysOverlap('deeplink.other', 'deeplink.secret'), false);
+});
+
+test('listStorageKeys flattens the nested namespace value by prefix', () => {
+  // Shape electron-store gives `store.get('switchboard.local')`.
+  const namespaceValue = {
+    user: { theme: 'dark', locale: 'en', flags: [1, 2] },
+    draft: '{}',
+    count: 3,
+  };
+
+  assert.deepEqual(listStorageKeys(namespaceValue), ['draft', 'user.locale', 'user.theme']);
+  assert.deepEqual(listStorageKeys(namespaceValue, 'user.'), ['user.locale', 'user.theme']);
+  assert.deepEqual(listStorageKeys(namespaceValue, 'missing'), []);
+  assert.deepEqual(listStorageKeys(undefined), []);
+});
+
+test('resolveStoredValue unwraps TTL envelopes until they expire', () => {
+  const envelope = createStoredValueEnvelope('trace-1', 1000, 5000);
+  assert.deepEqual(envelope, { value: 'trace-1', expiresAt: 6000 });
+
+  assert.deepEqual(resolveStoredValue(envelope, undefined, 5999), {
+    value: 'trace-1',
+    shouldMigrateLegacyValue: false,
+  });
+  // An expired value does not fall back to a legacy value.
+  assert.deepEqual(resolveStoredValue(envelope, 'legacy-value', 6000), {
+    value: null,
+    shouldMigrateLegacyValue: false,
+    expired: true,
+  });
+});
+
+test('storage key listing skips expired values and the sweep finds them', () => {
+  const namespaceValue = {
+    banner: { dismissed: createStoredValueEnvelope('1', 1000, 0) },
+    lastTrace: createStoredValueEnvelope('trace-1', 5000, 0),
+    theme: 'dark',
+  };
+
+  assert.deepEqual(listStorageKeys(namespaceValue, '', 500), ['banner.dismissed', 'lastTrace', 'theme']);
+  assert.deepEqual(listStorageKeys(namespaceValue, '', 1000), ['lastTrace', 'theme']);
+  assert.deepEqual(listExpiredStorageKeys(namespaceValue, 500), []);
+  assert.deepEqual(listExpiredStorageKeys(namespaceValue, 5000), ['banner.dismissed', 'lastTrace']);
+});
+
+test('getStoredEntrySizes measures UTF-8 bytes of live entries', () => {
+  const sizes = getStoredEntrySizes(
+    {
+      theme: 'dark',
+      user: { name: 'Zoë' },
+      expired: createStoredValueEnvelope('x', 10, 0),
+      banner: createStoredValueEnvelope('1', 1000, 0),
+    },
+    100
+  );
+
+  assert.deepEqual([...sizes.entries()].sort(), [
+    ['banner', 7],
+    ['theme', 9],
+    ['user.name', 13],
+  ]);
+});
+
+test('checkStorageQuota rejects writes that grow past the quota', () => {
+  const sizes = new Map([
+    ['a', 10],
+    ['b', 10],
+  ]);
+  const quota = { maxBytes: 24, maxKeys: 2 };
+
+  assert.equal(checkStorageQuota('storage', sizes, [['a', '0123456']], quota), null);
+  assert.match(
+    checkStorageQuota('storage', sizes, [['c', '1']], quota) ?? '',
+    /^Storage quota exceeded for storage: 3 keys would exceed the limit of 2$/
+  );
+  assert.match(
+    checkStorageQuota('storage', sizes, [['a', '0123456789abcdef']], quota) ?? '',
+    /^Storage quota exceeded for storage: 27 bytes would exceed the limit of 24$/
+  );
+  // Already over a lowered quota: shrinking writes still succeed.
+  assert.equal(checkStorageQuota('storage', sizes, [['a', '1']], { maxBytes: 5, maxKeys: 1 }), null);
+});
+
+test('clearStoredValues clears the nested secure fallback store except kept entries', () => {
+  // Shape of the safeStorage fallback store: namespaced keys nest under
+  // `switchboard.secure`, legacy unscoped keys sit at the root.
+  const store = {
+    switchboard: {
+      secure: {
+        token: 'enc-1',
+        deeplink: { secret: 'enc-2', other: 'enc-3' },
+      },
+    },
+    legacyToken: 'enc-4',
+  };
+
+  assert.deepEqual(clearStoredValues(store, new Set([getSecureStorageKey('deeplink.secret')])), {
+    remaining: { switchboard: { secure: { deeplink: { secret: 'enc-2' } } } },
+    removed: ['switchboard.secure.token', 'switchboard.secure.deeplink.other', 'legacyToken'],
+  });
+  assert.deepEqual(clearStoredValues(store, new Set()).remaining, {});
+  assert.deepEqual(clearStoredValues(undefined, new Set()), { remaining: {}, removed: [] });
+});
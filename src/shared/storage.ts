@@ -8,9 +8,34 @@
 export const LOCAL_STORAGE_NAMESPACE = 'switchboard.local';
 export const SECURE_STORAGE_NAMESPACE = 'switchboard.secure';
 export const SECURE_KEY_INDEX = '__switchboard_secure_keys__';
+/** Remembered deep link confirmation answers (outside the bridge namespace) */
+export const DEEP_LINK_DECISIONS_KEY = '__switchboard_deeplink_decisions__';
+/** Persisted deep link history (outside the bridge namespace) */
+export const DEEP_LINK_HISTORY_KEY = '__switchboard_deeplink_history__';
+
+/** Prefix of the app's own entries at the store root */
+const RESERVED_STORAGE_KEY_PREFIX = '__switchboard_';
+
+/**
+ * Whether a key names one of the app's own root entries (secure key index,
+ * deep link history and decisions). Bridge keys fall back to legacy unscoped
+ * entries at the root, so these are never valid bridge keys.
+ */
+export function isReservedStorageKey(key: string): boolean {
+  return key.startsWith(RESERVED_STORAGE_KEY_PREFIX);
+}
 
 export function isValidStorageKey(key: string): boolean {
-  return key.length > 0 && key.length <= 256 && /^[a-zA-Z0-9_.-]+$/.test(key);
+  return key.length > 0 && key.length <= 256 && /^[a-zA-Z0-9_.-]+$/.test(key) && !isReservedStorageKey(key);
+}
+
+/**
+ * Whether two keys share storage: electron-store nests dotted keys, so writing
+ * `a.b` turns a string at `a` into an object, and writing `a` replaces
+ * everything under `a.`.
+ */
+export function storageKeysOverlap(key: string, other: string): boolean {
+  return key === other || key.startsWith(`${other}.`) || other.startsWith(`${key}.`);
 }
 
 export function getLocalStorageKey(key: string): string {
@@ -21,14 +46,194 @@ export function getSecureStorageKey(key: string): string {
   return `${SECURE_STORAGE_NAMESPACE}.${key}`;
 }
 
+/**
+ * A value written with a TTL. Values without a TTL are stored as plain strings.
+ * The bridge only stores strings, so a numeric `expiresAt` cannot come from
+ * nested bridge keys.
+ */
+export interface StoredValueEnvelope {
+  value: string;
+  /** Expiry time in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+export function isStoredValueEnvelope(value: unknown): value is StoredValueEnvelope {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.value === 'string' && typeof candidate.expiresAt === 'number';
+}
+
+export function createStoredValueEnvelope(value: string, ttlMs: number, now = Date.now()): StoredValueEnvelope {
+  return { value, expiresAt: now + ttlMs };
+}
+
+/**
+ * Visit every stored value under a namespace. electron-store nests dotted
+ * keys, so `namespaceValue` is the object stored at the namespace path and
+ * every string or envelope leaf is one bridge key.
+ */
+function visitStoredValues(
+  namespaceValue: unknown,
+  visitor: (key: string, value: string | StoredValueEnvelope) => void
+): void {
+  const visit = (value: unknown, path: string) => {
+    if (typeof value === 'string' || isStoredValueEnvelope(value)) {
+      if (isValidStorageKey(path)) visitor(path, value);
+      return;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return;
+    for (const [segment, child] of Object.entries(value)) {
+      visit(child, path ? `${path}.${segment}` : segment);
+    }
+  };
+  visit(namespaceValue, '');
+}
+
+/**
+ * Bridge keys stored under a namespace, optionally filtered by prefix, sorted.
+ * Expired entries and legacy unscoped keys (stored outside the namespace) are
+ * not listed.
+ */
+export function listStorageKeys(namespaceValue: unknown, prefix = '', now = Date.now()): string[] {
+  const keys: string[] = [];
+  visitStoredValues(namespaceValue, (key, value) => {
+    if (!key.startsWith(prefix)) return;
+    if (typeof value !== 'string' && value.expiresAt <= now) return;
+    keys.push(key);
+  });
+  return keys.sort();
+}
+
+/**
+ * Live (unexpired) entries under a namespace by bridge key; values with a TTL
+ * keep their envelope
+ */
+export function getStoredEntries(
+  namespaceValue: unknown,
+  now = Date.now()
+): Record<string, string | StoredValueEnvelope> {
+  const entries: Record<string, string | StoredValueEnvelope> = {};
+  visitStoredValues(namespaceValue, (key, value) => {
+    if (typeof value === 'string' || value.expiresAt > now) entries[key] = value;
+  });
+  return entries;
+}
+
+/**
+ * Bridge keys under a namespace whose TTL has run out
+ */
+export function listExpiredStorageKeys(namespaceValue: unknown, now = Date.now()): string[] {
+  const keys: string[] = [];
+  visitStoredValues(namespaceValue, (key, value) => {
+    if (typeof value !== 'string' && value.expiresAt <= now) keys.push(key);
+  });
+  return keys.sort();
+}
+
+/**
+ * Clear a whole store object except the entries at `keep` (full dot paths,
+ * e.g. `switchboard.secure.deeplink.secret`). electron-store nests dotted
+ * keys, so kept entries sit deep in the tree and every other leaf is
+ * removed individually. Returns the remaining object and the removed paths.
+ */
+export function clearStoredValues(
+  storeValue: unknown,
+  keep: ReadonlySet<string>
+): { remaining: Record<string, unknown>; removed: string[] } {
+  const removed: string[] = [];
+  const clear = (value: Record<string, unknown>, path: string): Record<string, unknown> => {
+    const remaining: Record<string, unknown> = {};
+    for (const [segment, child] of Object.entries(value)) {
+      const childPath = path ? `${path}.${segment}` : segment;
+      if (child && typeof child === 'object' && !Array.isArray(child)) {
+        const kept = clear(child as Record<string, unknown>, childPath);
+        if (Object.keys(kept).length > 0) remaining[segment] = kept;
+      } else if (keep.has(childPath)) {
+        remaining[segment] = child;
+      } else {
+        removed.push(childPath);
+      }
+    }
+    return remaining;
+  };
+  const isObject = storeValue && typeof storeValue === 'object' && !Array.isArray(storeValue);
+  return { remaining: isObject ? clear(storeValue as Record<string, unknown>, '') : {}, removed };
+}
+
+const utf8Encoder = new TextEncoder();
+
+/**
+ * UTF-8 size of one stored entry (key plus value)
+ */
+export function getStorageEntryBytes(key: string, value: string): number {
+  return utf8Encoder.encode(key).length + utf8Encoder.encode(value).length;
+}
+
+/**
+ * Size of each live (unexpired) bridge key under a namespace
+ */
+export function getStoredEntrySizes(namespaceValue: unknown, now = Date.now()): Map<string, number> {
+  const sizes = new Map<string, number>();
+  visitStoredValues(namespaceValue, (key, value) => {
+    if (typeof value === 'string') {
+      sizes.set(key, getStorageEntryBytes(key, value));
+    } else if (value.expiresAt > now) {
+      sizes.set(key, getStorageEntryBytes(key, value.value));
+    }
+  });
+  return sizes;
+}
+
+/**
+ * Bytes and key count of a namespace after writing `entries` over the
+ * current entry sizes
+ */
+export function projectStorageUsage(
+  sizes: ReadonlyMap<string, number>,
+  entries: ReadonlyArray<readonly [string, string]> = []
+): { bytes: number; keyCount: number } {
+  const projected = new Map(sizes);
+  for (const [key, value] of entries) {
+    projected.set(key, getStorageEntryBytes(key, value));
+  }
+  let bytes = 0;
+  for (const size of projected.values()) bytes += size;
+  return { bytes, keyCount: projected.size };
+}
+
+/**
+ * Describe why writing `entries` would exceed a namespace quota, or null when
+ * it fits. Writes that do not grow the namespace are always allowed, so a
+ * lowered quota never blocks shrinking values.
+ */
+export function checkStorageQuota(
+  namespace: string,
+  sizes: ReadonlyMap<string, number>,
+  entries: ReadonlyArray<readonly [string, string]>,
+  quota: { maxBytes: number; maxKeys: number }
+): string | null {
+  const current = projectStorageUsage(sizes);
+  const next = projectStorageUsage(sizes, entries);
+  if (next.keyCount > quota.maxKeys && next.keyCount > current.keyCount) {
+    return `Storage quota exceeded for ${namespace}: ${next.keyCount} keys would exceed the limit of ${quota.maxKeys}`;
+  }
+  if (next.bytes > quota.maxBytes && next.bytes > current.bytes) {
+    return `Storage quota exceeded for ${namespace}: ${next.bytes} bytes would exceed the limit of ${quota.maxBytes}`;
+  }
+  return null;
+}
+
 export interface ResolvedStoredValue {
   value: string | null;
   shouldMigrateLegacyValue: boolean;
+  /** Set when the namespaced value had a TTL that has run out; it should be deleted */
+  expired?: true;
 }
 
 export function resolveStoredValue(
   namespacedValue: unknown,
-  legacyValue: unknown
+  legacyValue: unknown,
+  now = Date.now()
 ): ResolvedStoredValue {
   if (typeof namespacedValue === 'string') {
     return {
@@ -37,6 +242,17 @@ export function resolveStoredValue(
     };
   }
 
+  if (isStoredValueEnvelope(namespacedValue)) {
+    // An expired value must not fall back to an older legacy value.
+    if (namespacedValue.expiresAt <= now) {
+      return { value: null, shouldMigrateLegacyValue: false, expired: true };
+    }
+    return {
+      value: namespacedValue.value,
+      shouldMigrateLegacyValue: false,
+    };
+  }
+
   if (typeof legacyValue === 'string') {
     return {
       value: legacyValue,
@@ -64,6 +64,263 @@ export interface UpdateInfo {
   releaseNotes?: string;
 }
 
+/** Config profile selection state */
+export interface ConfigProfilesInfo {
+  /** Name of the active profile (null when using top-level config) */
+  active: string | null;
+  /** Names of all profiles declared in the config file */
+  available: string[];
+}
+
+/** Layer that supplied a rejected config value */
+export type ConfigProblemSource = 'file' | 'env' | 'policy';
+
+/** A config value that was rejected, clamped or normalized while loading */
+export interface ConfigProblem {
+  /** Config field path (e.g. `splash.logoWidth`, `profiles.staging.appUrl`) */
+  field: string;
+  /** Layer that supplied the value */
+  source: ConfigProblemSource;
+  /** Description of what was wrong */
+  problem: string;
+  /** Value in effect for the field after fallback (null if not applicable) */
+  fallbackUsed: unknown;
+}
+
+/** Layer that supplied an effective config value */
+export type ConfigValueSource =
+  | { layer: 'default' }
+  | { layer: 'file'; path: string }
+  | { layer: 'profile'; profile: string; path: string }
+  | { layer: 'env'; variable: string }
+  | { layer: 'runtime' }
+  | { layer: 'policy'; path: string };
+
+/** A config file location checked during discovery */
+export interface ConfigCandidatePath {
+  path: string;
+  /**
+   * loaded: file used; missing: not found; invalid: unreadable or bad JSON;
+   * shadowed: exists but a higher-priority file was loaded first
+   */
+  status: 'loaded' | 'missing' | 'invalid' | 'shadowed';
+}
+
+/** Where each effective config value came from */
+export interface ConfigProvenance {
+  /** Source per AppConfig field (splash fields as `splash.<name>`) */
+  fields: Record<string, ConfigValueSource>;
+  /** Candidate config file paths in discovery order */
+  candidatePaths: ConfigCandidatePath[];
+  /** Path of the loaded config file (null when none was loaded) */
+  loadedPath: string | null;
+  /** Parent files merged through `extends`, furthest ancestor first */
+  extendedPaths: string[];
+  /** Env variable (or `--config` flag) that selected the config file explicitly, if any */
+  explicitPathVariable: string | null;
+  /** Path of the applied machine-wide policy file (null when none was applied) */
+  policyPath: string | null;
+}
+
+/** Settings locked by the machine-wide policy file */
+export interface ManagedSettingsInfo {
+  /** Path of the applied policy file (null when no policy is in effect) */
+  policyPath: string | null;
+  /** Locked field paths (splash fields as `splash.<name>`) */
+  lockedFields: string[];
+}
+
+/** Values edited by the bundled local settings window */
+export interface SettingsValues {
+  appUrl: string;
+  trustedOrigins: string[];
+  startInTray: boolean;
+  minimizeToTray: boolean;
+  updateChannel: 'stable' | 'beta' | 'alpha';
+  splash: {
+    enabled: boolean;
+    appName: string;
+    loadingText: string;
+    backgroundColor: string;
+    textColor: string;
+    accentColor: string;
+    showVersion: boolean;
+  };
+}
+
+/** Current settings plus what the settings window needs to explain them */
+export interface SettingsState {
+  /** Running values */
+  values: SettingsValues;
+  /** User config file that settings are saved to */
+  targetPath: string;
+  /** Fields whose running value comes from env, a profile or policy (not the user file) */
+  overrides: Record<string, ConfigValueSource>;
+  /** Fields locked by the machine-wide policy */
+  lockedFields: string[];
+}
+
+/** Result of saving the local settings form */
+export interface SettingsSaveResult {
+  /** False when validation failed and nothing was written */
+  saved: boolean;
+  /** File that was (or would have been) written */
+  path: string;
+  /** Fields written to the file */
+  changedFields: string[];
+  /** Validation problems (nothing is written when any exist) */
+  problems: ConfigProblem[];
+  /** Saved fields that are still overridden by env, a profile or policy */
+  shadowedFields: string[];
+}
+
+/** Custom deep link (action declared in `deepLinkActions`) forwarded to the web app */
+export interface CustomDeepLinkEvent {
+  /** Delivery id used for the acknowledgement */
+  id: string;
+  /** Registered action name (e.g. `incident` for `switchboard://incident/42`) */
+  action: string;
+  /** Path after the action (`/` when empty) */
+  path: string;
+  /** Query parameters (signature parameters removed) */
+  params: Record<string, string>;
+  /** Scheme the link arrived with (`deepLinkScheme` or one of its aliases) */
+  scheme: string;
+}
+
+/** Most keys or entries a single storage batch call may carry */
+export const STORAGE_MAX_BATCH_ENTRIES = 100;
+
+/** Most characters (keys plus values) a single `storage.setMany` call may carry */
+export const STORAGE_MAX_BATCH_CHARS = 4 * 1024 * 1024;
+
+/** Options for `storage.set` and `storage.setJSON` */
+export interface StorageSetOptions {
+  /** Treat the value as missing after this many milliseconds (a positive integer) */
+  ttlMs?: number;
+}
+
+/** Change made to local or secure storage (never includes the value) */
+export interface StorageChangeEvent {
+  /** Changed key, or null when the namespace was cleared */
+  key: string | null;
+  namespace: 'storage' | 'secureStorage';
+  kind: 'set' | 'remove' | 'clear';
+}
+
+/** Space used by a storage namespace, with its configured quota */
+export interface StorageUsage {
+  /** UTF-8 bytes of all keys and values */
+  bytes: number;
+  keyCount: number;
+  maxBytes: number;
+  maxKeys: number;
+}
+
+/** Options for exporting an encrypted storage backup */
+export interface StorageBackupExportOptions {
+  /** Passphrase the backup key is derived from (8..1024 characters) */
+  passphrase: string;
+  /** Also include the tracked secure storage values (default: false) */
+  includeSecure?: boolean;
+}
+
+/** Options for importing an encrypted storage backup */
+export interface StorageBackupImportOptions {
+  passphrase: string;
+  /**
+   * `merge` (default) writes the backup over existing keys and keeps the rest;
+   * `replace` first clears each namespace the backup includes
+   */
+  mode?: 'merge' | 'replace';
+}
+
+/** Result of a storage backup export */
+export interface StorageBackupExportResult {
+  /** Backup file written */
+  path: string;
+  localCount: number;
+  secureCount: number;
+}
+
+/** What a storage backup import changed */
+export interface StorageBackupImportSummary {
+  /** Backup file read */
+  path: string;
+  /** When the backup was written (ISO 8601) */
+  backupCreatedAt: string;
+  mode: 'merge' | 'replace';
+  localImported: number;
+  /** Local keys cleared by `replace` */
+  localRemoved: number;
+  secureImported: number;
+  /** Secure keys cleared by `replace` */
+  secureRemoved: number;
+  /** Expired or invalid entries left out */
+  skipped: number;
+}
+
+/** How a deep link reached the app (`replay` for links replayed from history) */
+export type DeepLinkSource = 'argv' | 'second-instance' | 'open-url' | 'in-page' | 'replay';
+
+/** Final outcome of a received deep link */
+export type DeepLinkOutcome =
+  | 'disabled'
+  | 'invalid'
+  | 'rejected'
+  | 'declined'
+  | 'executed'
+  | 'forwarded'
+  | 'dropped';
+
+/** Received deep link, as kept in the deep link history */
+export interface DeepLinkHistoryEntry {
+  /** History entry id (used for replay) */
+  id: string;
+  /** ISO timestamp when the link was received */
+  receivedAt: string;
+  source: DeepLinkSource;
+  /** Link with sensitive query values redacted */
+  url: string;
+  /** Configured scheme the link used (absent when it matched none) */
+  scheme?: string;
+  /** Parsed link kind or action (`route`, `quit`, `custom`, ...), null when invalid */
+  target: string | null;
+  outcome: DeepLinkOutcome;
+  /** Why the link was rejected (signature policy reason or run error) or dropped (throttle reason) */
+  reason?: string;
+}
+
+/** How long the main process waits for a custom deep link acknowledgement */
+export const DEEP_LINK_ACK_TIMEOUT_MS = 5000;
+
+/** Bridge API namespace names (keys of ElectronBridge, excluding `isElectron`) */
+export type BridgeNamespace =
+  | 'notifications'
+  | 'tray'
+  | 'app'
+  | 'storage'
+  | 'secureStorage'
+  | 'diagnostics'
+  | 'updates'
+  | 'config'
+  | 'settings'
+  | 'deepLinks';
+
+/** Bridge capabilities granted to the calling origin */
+export interface CapabilityInfo {
+  /** Origin of the caller (null for the built-in fallback page) */
+  origin: string | null;
+  /** True when a `capabilities` entry limits this origin */
+  restricted: boolean;
+  /** `capabilities` keys (origins or patterns) that matched this origin */
+  matchedEntries: string[];
+  /** Namespaces the origin may call in full */
+  namespaces: BridgeNamespace[];
+  /** Individual IPC channels granted outside of `namespaces` */
+  channels: string[];
+}
+
 /**
  * Electron Bridge API exposed to the renderer via contextBridge
  *
@@ -141,6 +398,12 @@ export interface ElectronBridge {
 
     /** Quit the application */
     quit(): Promise<void>;
+
+    /**
+     * Get the bridge capabilities granted to this origin
+     * @returns Granted namespaces and channels
+     */
+    getCapabilities(): Promise<CapabilityInfo>;
   };
 
   /** Non-sensitive local storage */
@@ -156,8 +419,9 @@ export interface ElectronBridge {
      * Set a value in local storage
      * @param key - Storage key
      * @param value - Value to store
+     * @param options - `ttlMs` makes the value expire after that many milliseconds
      */
-    set(key: string, value: string): Promise<void>;
+    set(key: string, value: string, options?: StorageSetOptions): Promise<void>;
 
     /**
      * Remove a value from local storage
@@ -169,6 +433,65 @@ export interface ElectronBridge {
      * Remove all non-sensitive local storage values
      */
     clear(): Promise<void>;
+
+    /**
+     * List stored keys, sorted
+     * @param prefix - Only return keys starting with this prefix
+     */
+    keys(prefix?: string): Promise<string[]>;
+
+    /**
+     * Get several values at once (up to 100 keys)
+     * @param keys - Storage keys
+     * @returns Values by key, null for missing keys
+     */
+    getMany(keys: string[]): Promise<Record<string, string | null>>;
+
+    /**
+     * Set several values at once (up to 100 entries, 4M characters in total)
+     * @param entries - Values by key
+     */
+    setMany(entries: Record<string, string>): Promise<void>;
+
+    /**
+     * Get a value stored with setJSON
+     * @param key - Storage key
+     * @returns The parsed value or null if not found
+     */
+    getJSON<T = unknown>(key: string): Promise<T | null>;
+
+    /**
+     * Store a JSON-serializable value
+     * @param key - Storage key
+     * @param value - Value to serialize
+     * @param options - `ttlMs` makes the value expire after that many milliseconds
+     */
+    setJSON(key: string, value: unknown, options?: StorageSetOptions): Promise<void>;
+
+    /**
+     * Register a callback for local storage changes from any window
+     * @param callback - Function called after a value is set or removed, or storage is cleared
+     * @returns Unsubscribe function
+     */
+    onChange(callback: (change: StorageChangeEvent) => void): () => void;
+
+    /**
+     * Get the space used by local storage and its quota
+     */
+    getUsage(): Promise<StorageUsage>;
+
+    /**
+     * Write local (and optionally secure) storage to a passphrase-encrypted
+     * file chosen in a save dialog
+     * @returns The written file and entry counts, or null when cancelled
+     */
+    exportBackup(options: StorageBackupExportOptions): Promise<StorageBackupExportResult | null>;
+
+    /**
+     * Restore a backup file chosen in an open dialog
+     * @returns What was imported, or null when cancelled
+     */
+    importBackup(options: StorageBackupImportOptions): Promise<StorageBackupImportSummary | null>;
   };
 
   /** Secure storage (OS keychain) */
@@ -197,6 +520,19 @@ export interface ElectronBridge {
      * Remove all secure storage values
      */
     clear(): Promise<void>;
+
+    /**
+     * Register a callback for secure storage changes from any window
+     * (the event never includes the value)
+     * @param callback - Function called after a value is set or removed, or storage is cleared
+     * @returns Unsubscribe function
+     */
+    onChange(callback: (change: StorageChangeEvent) => void): () => void;
+
+    /**
+     * Get the space used by secure storage and its quota
+     */
+    getUsage(): Promise<StorageUsage>;
   };
 
   /** Diagnostics export and supportability actions */
@@ -246,6 +582,101 @@ export interface ElectronBridge {
      */
     onStatusChange(callback: (info: UpdateInfo) => void): () => void;
   };
+
+  /** Runtime configuration */
+  config: {
+    /**
+     * Get the active profile and the list of declared profiles
+     */
+    getProfiles(): Promise<ConfigProfilesInfo>;
+
+    /**
+     * Switch to another config profile and reload the main window
+     * @param name - Profile name declared in the config file
+     */
+    switchProfile(name: string): Promise<void>;
+
+    /**
+     * Get problems found while validating the config file and env overrides
+     */
+    getProblems(): Promise<ConfigProblem[]>;
+
+    /**
+     * Get the source (default, file or env var) of every effective config value
+     */
+    getProvenance(): Promise<ConfigProvenance>;
+
+    /**
+     * Get the settings locked by the machine-wide policy (admin-managed)
+     */
+    getManagedSettings(): Promise<ManagedSettingsInfo>;
+  };
+
+  /** Bundled local settings window (works while APP_URL is unreachable) */
+  settings: {
+    /**
+     * Open the local settings window
+     */
+    open(): Promise<void>;
+
+    /**
+     * Get the current settings (local settings window only)
+     */
+    getState(): Promise<SettingsState>;
+
+    /**
+     * Validate and save settings to the user config file (local settings window only)
+     * @param values - Edited settings
+     * @param options - `reconnect` reloads the main window with the saved config
+     */
+    save(values: SettingsValues, options?: { reconnect?: boolean }): Promise<SettingsSaveResult>;
+
+    /**
+     * Export a storage backup (local settings window only)
+     */
+    exportBackup(options: StorageBackupExportOptions): Promise<StorageBackupExportResult | null>;
+
+    /**
+     * Import a storage backup (local settings window only)
+     */
+    importBackup(options: StorageBackupImportOptions): Promise<StorageBackupImportSummary | null>;
+  };
+
+  /** Custom deep links forwarded from the desktop app */
+  deepLinks: {
+    /**
+     * Register a callback for custom deep links. Links received before the
+     * first callback is registered are delivered to it.
+     * @param callback - Return `false` (or throw) when the link was not handled,
+     *   so the desktop app can use the action's fallback route
+     * @returns Unsubscribe function
+     */
+    onReceive(
+      callback: (link: CustomDeepLinkEvent) => boolean | void | Promise<boolean | void>
+    ): () => void;
+
+    /**
+     * Get recently received deep links (newest first, query values redacted)
+     */
+    getHistory(): Promise<DeepLinkHistoryEntry[]>;
+
+    /**
+     * Handle a deep link from the history again
+     * @param id - History entry id
+     */
+    replay(id: string): Promise<void>;
+
+    /**
+     * Build a `route` deep link to the main window's current view
+     */
+    getCurrentViewLink(): Promise<string>;
+
+    /**
+     * Copy a `route` deep link to the main window's current view to the
+     * clipboard and return it
+     */
+    copyCurrentViewLink(): Promise<string>;
+  };
 }
 
 /** IPC channel names */
@@ -267,18 +698,28 @@ export const IPC_CHANNELS = {
   APP_GET_VERSION: 'app:getVersion',
   APP_IS_PACKAGED: 'app:isPackaged',
   APP_QUIT: 'app:quit',
+  APP_GET_CAPABILITIES: 'app:getCapabilities',
 
   // Storage
   STORAGE_GET: 'storage:get',
   STORAGE_SET: 'storage:set',
   STORAGE_REMOVE: 'storage:remove',
   STORAGE_CLEAR: 'storage:clear',
+  STORAGE_CHANGED: 'storage:changed',
+  STORAGE_KEYS: 'storage:keys',
+  STORAGE_GET_MANY: 'storage:getMany',
+  STORAGE_SET_MANY: 'storage:setMany',
+  STORAGE_GET_USAGE: 'storage:getUsage',
+  STORAGE_EXPORT_BACKUP: 'storage:exportBackup',
+  STORAGE_IMPORT_BACKUP: 'storage:importBackup',
 
   // Secure Storage
   SECURE_STORAGE_GET: 'secureStorage:get',
   SECURE_STORAGE_SET: 'secureStorage:set',
   SECURE_STORAGE_REMOVE: 'secureStorage:remove',
   SECURE_STORAGE_CLEAR: 'secureStorage:clear',
+  SECURE_STORAGE_CHANGED: 'secureStorage:changed',
+  SECURE_STORAGE_GET_USAGE: 'secureStorage:getUsage',
 
   // Diagnostics
   DIAGNOSTICS_COPY: 'diagnostics:copy',
@@ -290,6 +731,28 @@ export const IPC_CHANNELS = {
   UPDATES_CHECK_NOW: 'updates:checkNow',
   UPDATES_INSTALL_NOW: 'updates:installNow',
   UPDATES_STATUS_CHANGED: 'updates:statusChanged',
+
+  // Config
+  CONFIG_GET_PROFILES: 'config:getProfiles',
+  CONFIG_SWITCH_PROFILE: 'config:switchProfile',
+  CONFIG_GET_PROBLEMS: 'config:getProblems',
+  CONFIG_GET_PROVENANCE: 'config:getProvenance',
+  CONFIG_GET_MANAGED_SETTINGS: 'config:getManagedSettings',
+
+  // Local settings window
+  SETTINGS_OPEN: 'settings:open',
+  SETTINGS_GET_STATE: 'settings:getState',
+  SETTINGS_SAVE: 'settings:save',
+  SETTINGS_EXPORT_BACKUP: 'settings:exportBackup',
+  SETTINGS_IMPORT_BACKUP: 'settings:importBackup',
+
+  // Deep links
+  DEEP_LINKS_RECEIVED: 'deepLinks:received',
+  DEEP_LINKS_ACK: 'deepLinks:ack',
+  DEEP_LINKS_GET_HISTORY: 'deepLinks:getHistory',
+  DEEP_LINKS_REPLAY: 'deepLinks:replay',
+  DEEP_LINKS_GET_CURRENT_VIEW_LINK: 'deepLinks:getCurrentViewLink',
+  DEEP_LINKS_COPY_CURRENT_VIEW_LINK: 'deepLinks:copyCurrentViewLink',
 } as const;
 
 /** Declare global window interface extension */